@@ -0,0 +1,586 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import '@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol';
+import '@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol';
+import '@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol';
+import '@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol';
+import '@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol';
+import '@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol';
+import '@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol';
+import '@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol';
+
+import './MovinToken.sol';
+
+error ZeroAmountNotAllowed();
+error InvalidLockPeriod(uint256 lockMonths);
+error InsufficientBalance(uint256 available, uint256 required);
+error InsufficientAllowance(uint256 allowed, uint256 required);
+error InvalidStakeIndex(uint256 index, uint256 stakeCount);
+error LockPeriodActive(uint256 unlockTime);
+error NoRewardsAvailable();
+error RewardsExpired();
+error InvalidActivityInput();
+error UnauthorizedAccess();
+error ContractPaused();
+error AlreadyReferred();
+error InvalidReferrer();
+error InvalidPremiumAmount();
+error InvalidMealScore();
+error MealClaimTooSoon(uint256 lastClaim, uint256 nextAllowed);
+error InvalidUser();
+error AttestationExpired(uint256 deadline);
+error InvalidAttestationSigner(address signer);
+error UnknownFunction(bytes4 selector);
+error InvalidDayRange(uint256 fromDay, uint256 toDay);
+error InvalidUtcOffset(int256 offset);
+error UtcOffsetChangeTooSoon(uint256 lastChange, uint256 nextAllowed);
+error UtcOffsetChangeBeforeDayEnd(uint256 nextAllowed);
+error InvalidPremiumPlan(uint256 planId);
+
+/**
+ * @dev State, events and shared modifiers/helpers of MOVINEarnV2.
+ * Inherited by MOVINEarnV2 and by its modules, which run through delegatecall on the
+ * proxy storage, so the layout below must only ever be appended to.
+ */
+abstract contract MOVINEarnStorage is
+  Ownable2StepUpgradeable,
+  AccessControlUpgradeable,
+  ReentrancyGuardUpgradeable,
+  PausableUpgradeable,
+  EIP712Upgradeable,
+  NoncesUpgradeable
+{
+  MovinToken public movinToken;
+  ERC20Upgradeable public erc20MovinToken;
+
+  struct Stake {
+    uint256 amount;
+    uint256 startTime;
+    uint256 lockDuration;
+    uint256 lastClaimed;
+  }
+
+  // New struct for view functions that includes rewards
+  struct StakeView {
+    uint256 amount;
+    uint256 startTime;
+    uint256 lockDuration;
+    uint256 lastClaimed;
+    uint256 rewards;
+    uint256 id;
+    uint256 compounded; // Part of amount that comes from compounded rewards, the rest was deposited
+    bool autoCompound;
+  }
+
+  struct UserActivity {
+    uint256 dailySteps;
+    uint256 dailyMets;
+    uint256 pendingStepsRewards;
+    uint256 pendingMetsRewards;
+    uint256 lastRewardAccumulationTime;
+    bool isPremium;
+    uint256 lastUpdated;
+  }
+  struct ActivityRecord {
+    uint256 value;
+    uint256 timestamp;
+  }
+  struct DailyActivity {
+    uint256 steps;
+    uint256 mets;
+    uint256 rewards;
+  }
+  struct ActivityStreak {
+    uint256 current;
+    uint256 best;
+    uint256 lastDay; // Last local day that reached the steps threshold
+  }
+  struct StreakBonus {
+    uint256 minDays;
+    uint256 bonusBps; // Added to steps and METs rewards, in basis points
+  }
+  struct ReferralInfo {
+    address referrer;
+    uint256 earnedBonus;
+    uint256 referralCount;
+    // V3: earnedBonus by reward source, counted from the V3 upgrade on
+    uint256 activityBonus;
+    uint256 stakingBonus;
+    uint256 mealBonus;
+  }
+
+  struct PremiumUserData {
+    bool status;
+    uint256 paid;
+    uint256 expiration;
+    uint256 planId; // 0 for subscriptions from before the plans registry
+    uint256 since; // V3: start of the uninterrupted subscription, 0 for subscriptions from before V3
+  }
+  struct PremiumPlan {
+    uint256 id;
+    uint256 price;
+    uint256 duration;
+    uint256 features; // Bitmask of PREMIUM_FEATURE_* flags
+    bool active; // Inactive plans cannot be subscribed to, existing subscriptions keep running
+  }
+
+  // Signup bonus of a referral, paid to both parties once the referee reaches the milestone
+  struct ReferralSignupBonus {
+    uint256 amount; // Paid to each party, 0 once released or for referrals without escrow
+    uint256 expiresAt;
+  }
+
+  // Activity signed off-chain by the activity oracle (EIP-712)
+  struct ActivityAttestation {
+    address user;
+    uint256 steps;
+    uint256 mets;
+    uint256 period;
+    uint256 nonce;
+    uint256 deadline;
+  }
+
+  // Economic parameter change waiting for its timelock (data is the ABI-encoded new value)
+  struct ParameterChange {
+    uint256 id;
+    bytes32 parameter;
+    bytes data;
+    uint256 executeAfter;
+  }
+  // Open stakes of a staker, tracked from their first staking operation after the V3 upgrade
+  struct StakerInfo {
+    bool tracked;
+    uint256 totalStaked; // Sum of the amounts of the open stakes
+    uint256[] openStakeIds; // Closing a stake moves the last ID into its place
+    mapping(uint256 => uint256) openStakePositions; // Stake ID => position in openStakeIds + 1
+  }
+  // Multiplier of a lock period from timestamp on
+  struct StakingRateCheckpoint {
+    uint256 timestamp;
+    uint256 multiplier;
+    uint256 index; // Sum of multiplier * seconds from the first checkpoint up to timestamp
+  }
+
+  event Staked(address indexed user, uint256 amount, uint256 lockPeriod, uint256 stakeId);
+  event StakingRewardsClaimed(address indexed user, uint256 stakeId, uint256 reward);
+  event Unstaked(address indexed user, uint256 amount, uint256 stakeId);
+  event PartiallyUnstaked(
+    address indexed user,
+    uint256 stakeId,
+    uint256 amount,
+    uint256 remainingAmount
+  );
+  event StakeSplit(address indexed user, uint256 stakeId, uint256 newStakeId, uint256 amount);
+  event StakesMerged(
+    address indexed user,
+    uint256[] stakeIds,
+    uint256 newStakeId,
+    uint256 amount,
+    uint256 lockPeriod
+  );
+  event AutoCompoundUpdated(address indexed user, uint256 stakeId, bool enabled);
+  event StakeCompounded(address indexed user, uint256 stakeId, uint256 reward, uint256 newAmount);
+  event EarlyUnstaked(
+    address indexed user,
+    uint256 stakeId,
+    uint256 amount,
+    uint256 penalty,
+    uint256 burned,
+    uint256 toRewardPool,
+    uint256 forfeitedRewards
+  );
+  event ActivityRecorded(
+    address indexed user,
+    uint256 newSteps,
+    uint256 newMets,
+    uint256 remainingSteps,
+    uint256 remainingMets,
+    uint256 timestamp
+  );
+
+  event RewardsClaimed(
+    address indexed user,
+    uint256 stepsReward,
+    uint256 metsReward,
+    uint256 totalReward
+  );
+  event PremiumStatusChanged(address indexed user, bool status);
+  event PremiumRenewed(
+    address indexed user,
+    uint256 indexed planId,
+    uint256 amount,
+    uint256 expiration
+  );
+  event PremiumCancelled(address indexed user, uint256 expiration);
+  event PremiumExpired(address indexed user, uint256 expiration);
+  event PremiumPlanAdded(uint256 indexed planId, uint256 price, uint256 duration, uint256 features);
+  event PremiumPlanStatusChanged(uint256 indexed planId, bool active);
+  event PremiumPaymentSplit(
+    address indexed user,
+    uint256 indexed planId,
+    uint256 burned,
+    uint256 toTreasury,
+    uint256 toRewardPool
+  );
+  event PremiumSponsored(
+    address indexed sponsor,
+    address indexed beneficiary,
+    uint256 indexed planId,
+    uint256 expiration
+  );
+  event RewardsRateDecreased(
+    uint256 newStepsRate,
+    uint256 newMetsRate,
+    uint256 nextDecreaseTimestamp
+  );
+  event Deposit(address indexed sender, uint256 amount);
+
+  event ReferralRegistered(address indexed user, address indexed referrer);
+  event ReferralBonusPaid(address indexed referrer, address indexed referee, uint256 amount);
+  event ReferralRewardShared(
+    address indexed referrer,
+    address indexed user,
+    bytes32 indexed source,
+    uint256 amount
+  );
+
+  event AllStakingRewardsClaimed(address indexed user, uint256 totalReward, uint256 stakeCount);
+
+  event Minted(address indexed user, uint256 amount);
+
+  event MealRewardsClaimed(address indexed user, uint256 score, uint256 amount);
+
+  event ActivityAttested(address indexed user, uint256 period, uint256 nonce);
+
+  event UtcOffsetUpdated(address indexed user, int256 offset);
+
+  event StreakUpdated(address indexed user, uint256 currentStreak, uint256 bestStreak);
+
+  event ActivityRewardsDeferred(address indexed user, uint256 stepsReward, uint256 metsReward);
+  event DeferredRewardsUpdated(address indexed user, bool enabled);
+  event GlobalDeferredRewardsUpdated(bool enabled);
+
+  event ModuleUpdated(address indexed module, bytes4[] selectors);
+
+  event Restaked(
+    address indexed user,
+    uint256 amount,
+    uint256 lockPeriod,
+    uint256 newStakeId,
+    uint256 oldStakeId
+  );
+
+  mapping(uint256 => uint256) public lockPeriodMultipliers;
+  // A stake ID is its position in the array, closed stakes are zeroed instead of removed
+  mapping(address => Stake[]) public userStakes;
+  mapping(address => UserActivity) public userActivities;
+  mapping(address => ActivityRecord[]) public userStepsHistory; // Deprecated: never written, see dailyActivities
+  mapping(address => ActivityRecord[]) public userMetsHistory; // Deprecated: never written, see dailyActivities
+  mapping(address => uint256) public userSteps;
+  mapping(address => uint256) public userMets;
+  mapping(address => PremiumUserData) public userPremiumData;
+
+  uint256 public rewardHalvingTimestamp;
+  uint256 public baseStepsRate;
+  uint256 public baseMetsRate;
+  uint256 public constant MAX_DAILY_STEPS = 30_000;
+  uint256 public constant MAX_DAILY_METS = 500;
+  uint256 public constant MAX_STEPS_PER_MINUTE = 300;
+  uint256 public constant MAX_METS_PER_MINUTE = 5;
+  uint256 public constant UNSTAKE_BURN_FEES_PERCENT = 1;
+  uint256 public constant EARLY_UNSTAKE_MAX_PENALTY_PERCENT = 20; // Right after staking, decreases linearly to 0 at unlock
+  uint256 public constant REFERRAL_BONUS_PERCENT = 100; // 100 = 1% (using basis points for better precision)
+  uint256 public constant MAX_REFERRAL_TIERS = 3;
+  uint256 public constant MAX_REFERRAL_TOTAL_BPS = 200; // Hard cap on the sum of all referral tiers
+  bytes32 public constant REFERRAL_SOURCE_STAKING = keccak256('REFERRAL_SOURCE_STAKING');
+  bytes32 public constant REFERRAL_SOURCE_MEAL = keccak256('REFERRAL_SOURCE_MEAL');
+  uint256 public constant HALVING_DECREASE_PERCENT = 1; // Represents 0.1% (used for documentation only)
+  uint256 public constant HALVING_RATE_NUMERATOR = 999; // 999/1000 = 0.999 (99.9%)
+  uint256 public constant HALVING_RATE_DENOMINATOR = 1000; // For 0.1% daily decrease
+  uint256 internal constant DECAY_PRECISION = 1e27; // Fixed-point precision of the closed-form rate decay
+  uint256 public constant MAX_ACTIVITY_HISTORY_DAYS = 366;
+  int256 public constant MIN_UTC_OFFSET = -12 hours;
+  int256 public constant MAX_UTC_OFFSET = 14 hours;
+  uint256 public constant UTC_OFFSET_CHANGE_COOLDOWN = 30 days;
+  uint256 public constant PREMIUM_EXPIRATION_TIME_MONTHLY = 30 days;
+  uint256 public constant PREMIUM_EXPIRATION_TIME_YEARLY = 365 days;
+  uint256 public constant PREMIUM_EXPIRATION_TIME_MONTHLY_AMOUNT = 100 * 10 ** 18; // 100 MVN per month
+  uint256 public constant PREMIUM_EXPIRATION_TIME_YEARLY_AMOUNT = 1000 * 10 ** 18; // 1000 MVN per year
+  uint256 public constant PREMIUM_FEATURE_METS_REWARDS = 1 << 0;
+  uint256 public constant PREMIUM_FEATURE_24_MONTH_STAKING = 1 << 1;
+  bytes32 public constant MEAL_ORACLE_ROLE = keccak256('MEAL_ORACLE_ROLE');
+  bytes32 public constant ACTIVITY_ORACLE_ROLE = keccak256('ACTIVITY_ORACLE_ROLE');
+  bytes32 public constant PAUSER_ROLE = keccak256('PAUSER_ROLE');
+  bytes32 public constant PARAMETER_ADMIN_ROLE = keccak256('PARAMETER_ADMIN_ROLE');
+  bytes32 public constant UPGRADER_ROLE = keccak256('UPGRADER_ROLE');
+  uint256 public constant PARAMETER_CHANGE_DELAY = 2 days;
+  bytes32 public constant ACTIVITY_ATTESTATION_TYPEHASH =
+    keccak256(
+      'ActivityAttestation(address user,uint256 steps,uint256 mets,uint256 period,uint256 nonce,uint256 deadline)'
+    );
+
+  address public migrator; // Deprecated: migration functions are gated by PARAMETER_ADMIN_ROLE
+
+  mapping(address => ReferralInfo) public userReferrals;
+  mapping(address => address[]) public referrals;
+  mapping(address => uint256) public lastMealClaim;
+
+  mapping(address => bool) public transactionSync;
+
+  // V3: Function selector => module implementation handling it through delegatecall
+  mapping(bytes4 => address) public modules;
+
+  // V3: Timelocked economic parameter changes
+  uint256 internal nextParameterChangeId;
+  mapping(uint256 => ParameterChange) internal parameterChanges;
+  uint256[] internal pendingParameterChangeIds;
+
+  // V3: Staking rewards settled on a stake but not paid out yet (user => stake ID => amount)
+  mapping(address => mapping(uint256 => uint256)) internal accruedStakingRewards;
+  // V3: Maximum time staking rewards accrue without a claim, 0 means no cap
+  uint256 public stakingClaimWindow;
+  // V3: Share of early unstake penalties that is burned in basis points, the rest stays in the reward pool
+  uint256 public earlyUnstakeBurnBps;
+  // V3: Auto-compounding stakes and the part of their principal that comes from compounded rewards
+  mapping(address => mapping(uint256 => bool)) internal autoCompoundStakes;
+  mapping(address => mapping(uint256 => uint256)) internal compoundedStakeAmounts;
+
+  // V3: Per-user activity ledger (user => absolute day index => daily totals)
+  mapping(address => mapping(uint256 => DailyActivity)) internal dailyActivities;
+  // V3: Local time of each user (UTC offset in seconds) and when it was last changed
+  mapping(address => int256) public userUtcOffsets;
+  mapping(address => uint256) public utcOffsetUpdatedAt;
+  // V3: Activity streaks and the bonus schedule applied to activity rewards
+  mapping(address => ActivityStreak) internal userStreaks;
+  uint256 public streakStepsThreshold;
+  StreakBonus[] public streakBonuses;
+  // V3: Deferred activity rewards, accrued into UserActivity and minted by claimActivityRewards
+  bool public deferredActivityRewards;
+  mapping(address => bool) public userDeferredActivityRewards;
+  // V3: Merkle roots of daily activity posted by the oracle (day => root) and settled user days
+  mapping(uint256 => bytes32) public dailyActivityRoots;
+  mapping(address => mapping(uint256 => bool)) public settledActivityDays;
+  // V3: Premium plans registry, plan IDs start at 1
+  mapping(uint256 => PremiumPlan) public premiumPlans;
+  uint256 public premiumPlanCount;
+  // V3: Split of premium payments in basis points, and the revenue routed to each destination
+  uint256 public premiumBurnBps;
+  uint256 public premiumTreasuryBps;
+  uint256 public premiumRewardPoolBps;
+  address public premiumTreasury;
+  uint256 public premiumRevenueBurned;
+  uint256 public premiumRevenueToTreasury;
+  uint256 public premiumRevenueToRewardPool;
+  // V3: Users each sponsor bought premium for, in first-sponsored order
+  mapping(address => address[]) internal sponsoredUsers;
+  mapping(address => mapping(address => bool)) internal isSponsoredBy;
+  // V3: Referral codes (code => owner, owner => code) and codes that cannot be claimed again
+  mapping(bytes32 => address) public referralCodeOwners;
+  mapping(address => bytes32) public referralCodes;
+  mapping(bytes32 => bool) public revokedReferralCodes;
+  // V3: Escrowed referral signup bonuses (referee => bonus), their release milestone and the
+  // number of days with recorded activity of each user
+  mapping(address => ReferralSignupBonus) public referralSignupBonuses;
+  uint256 public referralBonusMinActiveDays;
+  uint256 public referralBonusMinSteps;
+  uint256 public referralBonusEscrowPeriod;
+  mapping(address => uint256) public activeDays;
+  // V3: Referral bonus of each level up the referrer chain in basis points (index 0 is the direct
+  // referrer), and the bonus each referrer earned per level (referrer => level => amount)
+  uint256[] public referralTierBps;
+  mapping(address => mapping(uint256 => uint256)) public referralBonusByLevel;
+  // V3: Direct referrer's share of staking and meal rewards in basis points
+  uint256 public referralStakingShareBps;
+  uint256 public referralMealShareBps;
+  // V3: Every address that ever staked, in first-stake order, and their open stakes
+  address[] internal stakers;
+  mapping(address => StakerInfo) internal stakerInfos;
+  // V3: Multiplier changes of each lock period, so that time before a change keeps the old rate
+  mapping(uint256 => StakingRateCheckpoint[]) internal stakingRateCheckpoints;
+  // V3: Time up to which a stake's rewards were moved into accruedStakingRewards since its last
+  // claim, the claim window still counts from the last claim
+  mapping(address => mapping(uint256 => uint256)) internal stakingRewardCheckpoints;
+
+  // Storage gap for future upgrades
+  uint256[1] private __gap; // Changed from 47 to 1 to account for module routing, parameter timelock, staking state, activity tracking, premium plans and referrals
+
+  modifier whenNotPausedWithRevert() {
+    if (paused()) revert ContractPaused();
+    _;
+  }
+
+  function _getBaseRates() internal view returns (uint256 stepsRate, uint256 metsRate) {
+    uint256 currentMidnight = block.timestamp;
+    uint256 newStepsRate = baseStepsRate;
+    uint256 newMetsRate = baseMetsRate;
+
+    if (currentMidnight >= rewardHalvingTimestamp + 1 days) {
+      // Calculate number of days passed since last decrease
+      uint256 daysPassed = (currentMidnight - rewardHalvingTimestamp) / 86400;
+
+      // Apply 0.1% decrease for each day in closed form: rate * 0.999^daysPassed
+      // Stays within daysPassed + 1 wei of applying the decrease once per day
+      uint256 decay = _rpow(
+        (HALVING_RATE_NUMERATOR * DECAY_PRECISION) / HALVING_RATE_DENOMINATOR,
+        daysPassed
+      );
+      newStepsRate = (newStepsRate * decay) / DECAY_PRECISION;
+      newMetsRate = (newMetsRate * decay) / DECAY_PRECISION;
+    }
+
+    return (newStepsRate, newMetsRate);
+  }
+
+  // Fixed-point x^n with DECAY_PRECISION decimals through exponentiation by squaring, O(log n)
+  function _rpow(uint256 x, uint256 n) internal pure returns (uint256 result) {
+    result = n % 2 != 0 ? x : DECAY_PRECISION;
+
+    for (n /= 2; n != 0; n /= 2) {
+      x = (x * x + DECAY_PRECISION / 2) / DECAY_PRECISION;
+
+      if (n % 2 != 0) {
+        result = (result * x + DECAY_PRECISION / 2) / DECAY_PRECISION;
+      }
+    }
+  }
+
+  // Absolute day index (days since the Unix epoch) in the user's local time,
+  // so days never repeat across years
+  function _dayIndex(address user, uint256 timestamp) internal view returns (uint256) {
+    return _localDay(timestamp, userUtcOffsets[user]);
+  }
+
+  function _localDay(uint256 timestamp, int256 offset) internal pure returns (uint256) {
+    int256 localTime = int256(timestamp) + offset;
+    return localTime > 0 ? uint256(localTime) / 1 days : 0;
+  }
+
+  // First UTC timestamp after the given local day
+  function _localDayEnd(uint256 day, int256 offset) internal pure returns (uint256) {
+    return uint256(int256((day + 1) * 1 days) - offset);
+  }
+
+  // Premium check shared by every code path, a subscription is active up to its expiration
+  function _isPremium(address user) internal view returns (bool) {
+    PremiumUserData memory premiumData = userPremiumData[user];
+    return
+      premiumData.status &&
+      (premiumData.expiration == 0 || block.timestamp <= premiumData.expiration);
+  }
+
+  // Whether the user's active subscription includes a PREMIUM_FEATURE_* flag
+  function _hasPremiumFeature(address user, uint256 feature) internal view returns (bool) {
+    if (!_isPremium(user)) return false;
+
+    // Subscriptions from before the plans registry include every feature
+    uint256 planId = userPremiumData[user].planId;
+    return planId == 0 || premiumPlans[planId].features & feature != 0;
+  }
+
+  // _isPremium for state-changing paths, marks a lapsed subscription the first time the user shows up
+  function _checkPremium(address user) internal returns (bool) {
+    PremiumUserData storage premiumData = userPremiumData[user];
+
+    if (premiumData.status && !_isPremium(user)) {
+      premiumData.status = false;
+      emit PremiumExpired(user, premiumData.expiration);
+    }
+
+    return premiumData.status;
+  }
+
+  function _addPremiumPlan(
+    uint256 price,
+    uint256 duration,
+    uint256 features
+  ) internal returns (uint256 planId) {
+    if (price == 0 || duration == 0) revert ZeroAmountNotAllowed();
+
+    planId = ++premiumPlanCount;
+    premiumPlans[planId] = PremiumPlan({
+      id: planId,
+      price: price,
+      duration: duration,
+      features: features,
+      active: true
+    });
+
+    emit PremiumPlanAdded(planId, price, duration, features);
+  }
+
+  /**
+   * @dev Sum of a lock period's multiplier over time up to timestamp (multiplier * seconds).
+   * Lock periods whose multiplier never changed through the timelock use the current one throughout
+   */
+  function _stakingRateIndexAt(
+    uint256 lockMonths,
+    uint256 timestamp
+  ) internal view returns (uint256) {
+    StakingRateCheckpoint[] storage checkpoints = stakingRateCheckpoints[lockMonths];
+    if (checkpoints.length == 0) return lockPeriodMultipliers[lockMonths] * timestamp;
+
+    // Last checkpoint at or before timestamp, the first one is at timestamp 0
+    uint256 low;
+    uint256 high = checkpoints.length - 1;
+    while (low < high) {
+      uint256 mid = (low + high + 1) / 2;
+      if (checkpoints[mid].timestamp <= timestamp) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    StakingRateCheckpoint storage checkpoint = checkpoints[low];
+    return checkpoint.index + checkpoint.multiplier * (timestamp - checkpoint.timestamp);
+  }
+
+  // End (exclusive) of the page starting at offset in a list of total entries
+  function _pageEnd(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256) {
+    if (offset >= total) return offset;
+    return limit > total - offset ? total : offset + limit;
+  }
+
+  /**
+   * @dev Pays a user's direct referrer their share of a staking or meal reward paid to the user
+   * @param source REFERRAL_SOURCE_STAKING or REFERRAL_SOURCE_MEAL
+   */
+  function _payReferralShare(address user, uint256 reward, bytes32 source) internal {
+    address referrer = userReferrals[user].referrer;
+    if (referrer == address(0)) return;
+
+    uint256 shareBps = source == REFERRAL_SOURCE_STAKING
+      ? referralStakingShareBps
+      : referralMealShareBps;
+    uint256 bonus = (reward * shareBps) / 10_000;
+    if (bonus == 0) return;
+
+    _distributeTokens(referrer, bonus, true);
+
+    ReferralInfo storage info = userReferrals[referrer];
+    info.earnedBonus += bonus;
+    if (source == REFERRAL_SOURCE_STAKING) {
+      info.stakingBonus += bonus;
+    } else {
+      info.mealBonus += bonus;
+    }
+
+    emit ReferralRewardShared(referrer, user, source, bonus);
+  }
+
+  function _distributeTokens(address to, uint256 amount, bool shouldMint) internal {
+    if (amount == 0) return;
+
+    uint256 contractBalance = movinToken.balanceOf(address(this));
+    uint256 remainingSupply = movinToken.MAX_SUPPLY() - movinToken.totalSupply();
+
+    if (shouldMint && remainingSupply >= amount) {
+      movinToken.mint(to, amount);
+    } else if (contractBalance >= amount) {
+      erc20MovinToken.transfer(to, amount);
+    } else {
+      revert InsufficientBalance(contractBalance, amount);
+    }
+  }
+}
@@ -1,163 +1,11 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.29;
 
-import '@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol';
-import '@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol';
 import '@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol';
-import '@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol';
-import '@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol';
-import '@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol';
-
-import './MovinToken.sol';
-
-error ZeroAmountNotAllowed();
-error InvalidLockPeriod(uint256 lockMonths);
-error InsufficientBalance(uint256 available, uint256 required);
-error InsufficientAllowance(uint256 allowed, uint256 required);
-error InvalidStakeIndex(uint256 index, uint256 maxIndex);
-error LockPeriodActive(uint256 unlockTime);
-error NoRewardsAvailable();
-error RewardsExpired();
-error InvalidActivityInput();
-error UnauthorizedAccess();
-error ContractPaused();
-error AlreadyReferred();
-error InvalidReferrer();
-error InvalidPremiumAmount();
-error InvalidMealScore();
-error MealClaimTooSoon(uint256 lastClaim, uint256 nextAllowed);
-error InvalidUser();
-
-contract MOVINEarnV2 is
-  UUPSUpgradeable,
-  Ownable2StepUpgradeable,
-  ReentrancyGuardUpgradeable,
-  PausableUpgradeable
-{
-  MovinToken public movinToken;
-  ERC20Upgradeable public erc20MovinToken;
-
-  struct Stake {
-    uint256 amount;
-    uint256 startTime;
-    uint256 lockDuration;
-    uint256 lastClaimed;
-  }
-
-  // New struct for view functions that includes rewards
-  struct StakeView {
-    uint256 amount;
-    uint256 startTime;
-    uint256 lockDuration;
-    uint256 lastClaimed;
-    uint256 rewards;
-  }
 
-  struct UserActivity {
-    uint256 dailySteps;
-    uint256 dailyMets;
-    uint256 pendingStepsRewards;
-    uint256 pendingMetsRewards;
-    uint256 lastRewardAccumulationTime;
-    bool isPremium;
-    uint256 lastUpdated;
-  }
-  struct ActivityRecord {
-    uint256 value;
-    uint256 timestamp;
-  }
-  struct ReferralInfo {
-    address referrer;
-    uint256 earnedBonus;
-    uint256 referralCount;
-  }
-
-  struct PremiumUserData {
-    bool status;
-    uint256 paid;
-    uint256 expiration;
-  }
-
-  event Staked(address indexed user, uint256 amount, uint256 lockPeriod, uint256 stakeIndex);
-  event StakingRewardsClaimed(address indexed user, uint256 stakeIndex, uint256 reward);
-  event Unstaked(address indexed user, uint256 amount, uint256 stakeIndex);
-  event ActivityRecorded(
-    address indexed user,
-    uint256 newSteps,
-    uint256 newMets,
-    uint256 remainingSteps,
-    uint256 remainingMets,
-    uint256 timestamp
-  );
-
-  event RewardsClaimed(
-    address indexed user,
-    uint256 stepsReward,
-    uint256 metsReward,
-    uint256 totalReward
-  );
-  event PremiumStatusChanged(address indexed user, bool status);
-  event RewardsRateDecreased(
-    uint256 newStepsRate,
-    uint256 newMetsRate,
-    uint256 nextDecreaseTimestamp
-  );
-  event Deposit(address indexed sender, uint256 amount);
-
-  event ReferralRegistered(address indexed user, address indexed referrer);
-  event ReferralBonusPaid(address indexed referrer, address indexed referee, uint256 amount);
-
-  event AllStakingRewardsClaimed(address indexed user, uint256 totalReward, uint256 stakeCount);
-
-  event Minted(address indexed user, uint256 amount);
-
-  event MealRewardsClaimed(address indexed user, uint256 score, uint256 amount);
-
-  event Restaked(
-    address indexed user,
-    uint256 amount,
-    uint256 lockPeriod,
-    uint256 newStakeIndex,
-    uint256 oldStakeIndex
-  );
-
-  mapping(uint256 => uint256) public lockPeriodMultipliers;
-  mapping(address => Stake[]) public userStakes;
-  mapping(address => UserActivity) public userActivities;
-  mapping(address => ActivityRecord[]) public userStepsHistory;
-  mapping(address => ActivityRecord[]) public userMetsHistory;
-  mapping(address => uint256) public userSteps;
-  mapping(address => uint256) public userMets;
-  mapping(address => PremiumUserData) public userPremiumData;
-
-  uint256 public rewardHalvingTimestamp;
-  uint256 public baseStepsRate;
-  uint256 public baseMetsRate;
-  uint256 public constant MAX_DAILY_STEPS = 30_000;
-  uint256 public constant MAX_DAILY_METS = 500;
-  uint256 public constant MAX_STEPS_PER_MINUTE = 300;
-  uint256 public constant MAX_METS_PER_MINUTE = 5;
-  uint256 public constant UNSTAKE_BURN_FEES_PERCENT = 1;
-  uint256 public constant REFERRAL_BONUS_PERCENT = 100; // 100 = 1% (using basis points for better precision)
-  uint256 public constant HALVING_DECREASE_PERCENT = 1; // Represents 0.1% (used for documentation only)
-  uint256 public constant HALVING_RATE_NUMERATOR = 999; // 999/1000 = 0.999 (99.9%)
-  uint256 public constant HALVING_RATE_DENOMINATOR = 1000; // For 0.1% daily decrease
-  uint256 public constant PREMIUM_EXPIRATION_TIME_MONTHLY = 30 days;
-  uint256 public constant PREMIUM_EXPIRATION_TIME_YEARLY = 365 days;
-  uint256 public constant PREMIUM_EXPIRATION_TIME_MONTHLY_AMOUNT = 100 * 10 ** 18; // 100 MVN per month
-  uint256 public constant PREMIUM_EXPIRATION_TIME_YEARLY_AMOUNT = 1000 * 10 ** 18; // 1000 MVN per year
-
-  address public migrator;
-
-  mapping(address => ReferralInfo) public userReferrals;
-  mapping(address => address[]) public referrals;
-  mapping(address => uint256) public lastMealClaim;
-
-  mapping(address => bool) public transactionSync;
-
-  // Storage gap for future upgrades
-  uint256[47] private __gap; // Changed from 48 to 47 to account for new transactionSync mapping
+import './MOVINEarnStorage.sol';
 
+contract MOVINEarnV2 is UUPSUpgradeable, MOVINEarnStorage {
   /// @custom:oz-upgrades-unsafe-allow constructor
   constructor() {
     _disableInitializers();
@@ -180,6 +28,7 @@ contract MOVINEarnV2 is
     lockPeriodMultipliers[6] = 6;
     lockPeriodMultipliers[12] = 12;
     lockPeriodMultipliers[24] = 24;
+    _setupV3(msg.sender);
   }
 
   // V2: Initialize function for upgrading to V2 (not used in actual upgrade since state is preserved)
@@ -188,382 +37,30 @@ contract MOVINEarnV2 is
     // Note: rewardHalvingTimestamp is intentionally preserved from V1 to maintain reward decrease cadence
   }
 
+  // V3: Sets up the EIP-712 domain and access control roles on upgraded proxies
+  // Must be called by the owner through upgradeToAndCall
+  function initializeV3() public reinitializer(3) onlyOwner {
+    _setupV3(owner());
+  }
+
+  // Grants the parameter admin role to the migrator (kept for existing deployment scripts)
   function initializeMigration(address _migrator) external onlyOwner {
     require(migrator == address(0), 'Migration already initialized');
     migrator = _migrator;
-  }
-
-  modifier onlyMigrator() {
-    require(msg.sender == migrator, 'Caller is not migrator');
-    _;
-  }
-
-  function stakeTokens(
-    uint256 amount,
-    uint256 lockMonths
-  ) external nonReentrant whenNotPausedWithRevert {
-    if (amount == 0) revert ZeroAmountNotAllowed();
-    if (lockPeriodMultipliers[lockMonths] == 0) revert InvalidLockPeriod(lockMonths);
-    if (lockMonths == 24 && !userPremiumData[msg.sender].status) revert UnauthorizedAccess();
-
-    erc20MovinToken.transferFrom(msg.sender, address(this), amount);
-
-    uint256 lockPeriod = lockMonths * 30 days;
-    userStakes[msg.sender].push(
-      Stake({
-        amount: amount,
-        startTime: block.timestamp,
-        lockDuration: lockPeriod,
-        lastClaimed: block.timestamp
-      })
-    );
-
-    emit Staked(msg.sender, amount, lockPeriod, userStakes[msg.sender].length - 1);
-  }
-
-  function claimStakingRewards(uint256 stakeIndex) external nonReentrant whenNotPausedWithRevert {
-    uint256 stakeCount = userStakes[msg.sender].length;
-
-    if (stakeIndex >= stakeCount) {
-      revert InvalidStakeIndex(stakeIndex, stakeCount - 1);
-    }
-
-    Stake storage stake = userStakes[msg.sender][stakeIndex]; // Use storage reference
-
-    // Calculate reward (will be 0 if expired due to logic in calculateStakingReward)
-    uint256 reward = calculateStakingReward(msg.sender, stakeIndex);
-
-    // Update lastClaimed regardless of reward amount to reset the timer
-    stake.lastClaimed = block.timestamp;
-
-    // Add minimum threshold of 1 finney (0.001 ether) to prevent claiming tiny amounts
-    if (reward == 0 || reward < 0.001 ether) {
-      // If expired or reward is too small, revert with NoRewardsAvailable
-      // This avoids unnecessary token distribution attempts
-      revert NoRewardsAvailable();
-    }
-
-    // Use _distributeTokens helper to mint tokens if needed
-    _distributeTokens(msg.sender, reward, false);
-
-    emit StakingRewardsClaimed(msg.sender, stakeIndex, reward);
-  }
-
-  function claimAllStakingRewards() external nonReentrant whenNotPausedWithRevert {
-    uint256 stakeCount = userStakes[msg.sender].length;
-    if (stakeCount == 0) revert NoRewardsAvailable();
-
-    // First pass: calculate total rewards and identify stakes with rewards
-    uint256 totalReward = 0;
-    bool hasRewards = false;
-
-    for (uint256 i; i < stakeCount; ++i) {
-      // Calculate reward (will be 0 if expired due to logic in calculateStakingReward)
-      uint256 reward = calculateStakingReward(msg.sender, i);
-      if (reward > 0) {
-        totalReward += reward;
-        hasRewards = true;
-      }
-    }
-
-    // Explicit check for rewards availability
-    // Add minimum threshold of 1 finney (0.001 ether) to prevent claiming tiny amounts
-    if (!hasRewards || totalReward == 0 || totalReward < 0.001 ether) revert NoRewardsAvailable();
-
-    // Store the current timestamp once to ensure consistency
-    uint256 currentTimestamp = block.timestamp;
-
-    // Update lastClaimed timestamps for all stakes, not just ones with rewards
-    for (uint256 i; i < stakeCount; ++i) {
-      userStakes[msg.sender][i].lastClaimed = currentTimestamp;
-    }
-
-    // Distribute rewards using the helper function
-    _distributeTokens(msg.sender, totalReward, false);
-
-    // Emit event
-    emit AllStakingRewardsClaimed(msg.sender, totalReward, stakeCount);
-  }
-
-  function unstake(uint256 stakeIndex) external nonReentrant whenNotPausedWithRevert {
-    uint256 stakeCount = userStakes[msg.sender].length;
-
-    if (stakeIndex >= stakeCount) revert InvalidStakeIndex(stakeIndex, stakeCount - 1);
-
-    Stake storage stake = userStakes[msg.sender][stakeIndex];
-    uint256 unlockTime = stake.startTime + stake.lockDuration;
-
-    // Check if the lock period is still active
-    if (block.timestamp < unlockTime) {
-      revert LockPeriodActive(unlockTime);
-    }
-
-    uint256 burnAmount = (stake.amount * UNSTAKE_BURN_FEES_PERCENT) / 100;
-    uint256 userPayout = stake.amount - burnAmount;
-    _distributeTokens(msg.sender, userPayout, false);
-    movinToken.burn(burnAmount);
-    _removeStake(msg.sender, stakeIndex);
-
-    emit Unstaked(msg.sender, stake.amount, stakeIndex);
-  }
-
-  // New function for restaking without burning fees
-  function restake(
-    uint256 stakeIndex,
-    uint256 lockMonths
-  ) external nonReentrant whenNotPausedWithRevert {
-    uint256 stakeCount = userStakes[msg.sender].length;
-
-    if (stakeIndex >= stakeCount) revert InvalidStakeIndex(stakeIndex, stakeCount - 1);
-    if (lockPeriodMultipliers[lockMonths] == 0) revert InvalidLockPeriod(lockMonths);
-    if (lockMonths == 24 && !userPremiumData[msg.sender].status) revert UnauthorizedAccess();
-
-    Stake storage stake = userStakes[msg.sender][stakeIndex];
-    uint256 unlockTime = stake.startTime + stake.lockDuration;
-
-    // Check if the lock period is completed
-    if (block.timestamp < unlockTime) {
-      revert LockPeriodActive(unlockTime);
-    }
-
-    uint256 amount = stake.amount;
-    uint256 lockPeriod = lockMonths * 30 days;
-
-    // Remove old stake first to prevent any reentrancy issues
-    _removeStake(msg.sender, stakeIndex);
-
-    // Create a new stake with the same amount
-    userStakes[msg.sender].push(
-      Stake({
-        amount: amount,
-        startTime: block.timestamp,
-        lockDuration: lockPeriod,
-        lastClaimed: block.timestamp
-      })
-    );
-
-    emit Restaked(msg.sender, amount, lockPeriod, userStakes[msg.sender].length - 1, stakeIndex);
-  }
-
-  function getUserStakes(address user) external view returns (StakeView[] memory) {
-    Stake[] memory stakes = userStakes[user];
-    StakeView[] memory stakeViews = new StakeView[](stakes.length);
-
-    for (uint256 i = 0; i < stakes.length; i++) {
-      Stake memory stake = stakes[i];
-      uint256 reward = calculateStakingReward(user, i);
-
-      stakeViews[i] = StakeView({
-        amount: stake.amount,
-        startTime: stake.startTime,
-        lockDuration: stake.lockDuration,
-        lastClaimed: stake.lastClaimed,
-        rewards: reward
-      });
-    }
-
-    return stakeViews;
-  }
-
-  function getUserStake(uint256 index) external view returns (StakeView memory) {
-    if (index >= userStakes[msg.sender].length) {
-      revert InvalidStakeIndex(index, userStakes[msg.sender].length - 1);
-    }
-
-    Stake memory stake = userStakes[msg.sender][index];
-    uint256 reward = calculateStakingReward(msg.sender, index);
-
-    return
-      StakeView({
-        amount: stake.amount,
-        startTime: stake.startTime,
-        lockDuration: stake.lockDuration,
-        lastClaimed: stake.lastClaimed,
-        rewards: reward
-      });
-  }
-
-  function getUserStakeCount() external view returns (uint256) {
-    return userStakes[msg.sender].length;
-  }
-
-  function calculateActivityRewards(
-    address user,
-    uint256 newSteps,
-    uint256 newMets
-  ) public view returns (uint256, uint256, uint256, uint256) {
-    UserActivity memory activity = userActivities[user];
-    PremiumUserData memory premiumData = userPremiumData[user];
-    uint256 currentDayOfYear = ((block.timestamp / 86400) % 365) + 1;
-    uint256 activityDay = ((activity.lastUpdated / 86400) % 365) + 1;
-    uint256 dailySteps = activity.dailySteps;
-    uint256 dailyMets = activity.dailyMets;
-
-    if (activityDay != currentDayOfYear) {
-      dailySteps = 0;
-      dailyMets = 0;
-    }
-
-    uint256 todaySteps = dailySteps + newSteps;
-    uint256 todayMets = dailyMets + newMets;
-
-    // Cap at max daily
-    if (todaySteps > MAX_DAILY_STEPS) todaySteps = MAX_DAILY_STEPS;
-    if (todayMets > MAX_DAILY_METS) todayMets = MAX_DAILY_METS;
-
-    // Calculate rewards: 1 MVN per 1000 steps
-    uint256 stepsReward = ((todaySteps - dailySteps) * baseStepsRate) / 1000;
-    uint256 metsReward = 0;
-    if (premiumData.status) {
-      metsReward = ((todayMets - dailyMets) * baseMetsRate) / 5;
-    }
-    return (stepsReward, metsReward, todaySteps, todayMets);
-  }
-
-  function calculateStakingReward(address user, uint256 stakeIndex) public view returns (uint256) {
-    Stake storage stake = userStakes[user][stakeIndex];
-
-    uint256 timeSinceLastClaimed = block.timestamp - stake.lastClaimed;
-    uint256 effectiveDuration;
-
-    // Check if more than 1 day has passed since last claim
-    if (timeSinceLastClaimed > 1 days) {
-      // Calculate the remaining hours after taking modulo 24 hours
-      effectiveDuration = timeSinceLastClaimed % 1 days;
-    } else {
-      // Less than 24 hours passed, use the entire duration
-      effectiveDuration = timeSinceLastClaimed;
-    }
-
-    uint256 lockMonths = stake.lockDuration / 30 days;
-    uint256 apr = lockPeriodMultipliers[lockMonths];
-
-    // Calculate reward: (amount * apr * effectiveDuration) / (100 * 365 days)
-    // The division by 100 converts apr from percentage to decimal
-    // The division by 365 days is because APR is annual
-    uint256 reward = (stake.amount * apr * effectiveDuration) / (100 * 365 days);
-
-    return reward;
-  }
-
-  function recordActivity(
-    address user,
-    uint256 newSteps,
-    uint256 newMets
-  ) external whenNotPausedWithRevert {
-    // Require transactionSync to be true for the user
-    // if (!transactionSync[user]) revert UnauthorizedAccess();
-
-    // Skip validation completely if both inputs are zero
-    // This allows referral registration to work properly
-    if (newSteps <= 0 && newMets <= 0) {
-      return;
-    }
-
-    // Calculate day of year (1-365) using integer division
-    // block.timestamp / 86400 gives us days since epoch
-    // % 365 gives us day of year (0-364)
-    // + 1 gives us day of year (1-365)
-    uint256 currentDayOfYear = ((block.timestamp / 86400) % 365) + 1;
-    UserActivity storage activity = userActivities[user];
-    uint256 activityDay = ((activity.lastUpdated / 86400) % 365) + 1;
-
-    // Check if activity doesn't exist or timestamp doesn't match current day
-    if (activityDay != currentDayOfYear) {
-      activity.dailySteps = 0;
-      activity.dailyMets = 0;
-    }
-
-    // Calculate elapsed minutes (rounded down) since last update
-    uint256 elapsedTime = activity.lastUpdated > 0 ? (block.timestamp - activity.lastUpdated) : 0;
-    uint256 elapsedMinutes = elapsedTime / 60;
-
-    // First-time activity recording
-    bool isFirstActivity = activity.lastUpdated == 0 ||
-      (activity.dailySteps == 0 && activity.dailyMets == 0);
-
-    // Check time-based limits for physically possible activity
-    if (!isFirstActivity) {
-      if (elapsedMinutes > 0) {
-        // Calculate maximum possible steps in the elapsed time
-        uint256 maxPossibleSteps = elapsedMinutes * MAX_STEPS_PER_MINUTE;
-        uint256 maxPossibleMets = elapsedMinutes * MAX_METS_PER_MINUTE;
-
-        // Simpler validation that prevents underflow errors
-        if (newSteps > 0 && activity.dailySteps > 0 && newSteps > maxPossibleSteps) {
-          revert InvalidActivityInput();
-        }
-
-        if (newMets > 0 && activity.dailyMets > 0 && newMets > maxPossibleMets) {
-          revert InvalidActivityInput();
-        }
-      } else if (elapsedMinutes <= 0) {
-        // Prevent activity recording too frequently (must wait at least 1 minute)
-        revert InvalidActivityInput();
-      }
-    }
-
-    _checkDailyDecrease();
-
-    // Calculate rewards based on current daily totals
-    (
-      uint256 stepsReward,
-      uint256 metsReward,
-      uint256 todaySteps,
-      uint256 todayMets
-    ) = calculateActivityRewards(user, newSteps, newMets);
-
-    activity.dailySteps = todaySteps;
-    activity.dailyMets = todayMets;
-
-    // Update the total steps and METs counters for the user
-    userSteps[user] += newSteps;
-    userMets[user] += newMets;
-
-    emit ActivityRecorded(user, todaySteps, todayMets, todaySteps, todayMets, block.timestamp);
-
-    uint256 totalReward = stepsReward + metsReward;
-
-    // Send full reward to user
-    _distributeTokens(user, totalReward, true);
-
-    activity.lastUpdated = block.timestamp;
-
-    // Calculate and send referral bonus to referrer if exists
-    address referrer = userReferrals[user].referrer;
-
-    if (referrer != address(0)) {
-      // Calculate referral bonus using basis points (100 = 1%)
-      uint256 referralBonus = (totalReward * REFERRAL_BONUS_PERCENT) / 10000;
-
-      // Send referral bonus to referrer
-      if (referralBonus > 0) {
-        _distributeTokens(referrer, referralBonus, true);
-
-        // Update referrer's earned bonus
-        userReferrals[referrer].earnedBonus += referralBonus;
-
-        // Emit referral bonus event
-        emit ReferralBonusPaid(referrer, user, referralBonus);
-      }
-    }
-
-    emit RewardsClaimed(user, stepsReward, metsReward, totalReward);
+    _grantRole(PARAMETER_ADMIN_ROLE, _migrator);
   }
 
   function getTodayUserActivity(address user) external view returns (UserActivity memory) {
-    uint256 currentDayOfYear = ((block.timestamp / 86400) % 365) + 1;
     UserActivity storage activity = userActivities[user];
-    uint256 activityDay = ((activity.lastUpdated / 86400) % 365) + 1;
 
-    if (activityDay != currentDayOfYear) {
+    if (_dayIndex(user, activity.lastUpdated) != _dayIndex(user, block.timestamp)) {
       return
         UserActivity({
           dailySteps: 0,
           dailyMets: 0,
-          pendingStepsRewards: 0,
-          pendingMetsRewards: 0,
-          lastRewardAccumulationTime: block.timestamp,
+          pendingStepsRewards: activity.pendingStepsRewards,
+          pendingMetsRewards: activity.pendingMetsRewards,
+          lastRewardAccumulationTime: activity.lastRewardAccumulationTime,
           isPremium: activity.isPremium,
           lastUpdated: block.timestamp
         });
@@ -572,96 +69,91 @@ contract MOVINEarnV2 is
     return activity;
   }
 
-  function getBaseRates() public view returns (uint256 stepsRate, uint256 metsRate) {
-    uint256 currentMidnight = block.timestamp;
-    uint256 newStepsRate = baseStepsRate;
-    uint256 newMetsRate = baseMetsRate;
-
-    if (currentMidnight >= rewardHalvingTimestamp + 1 days) {
-      // Calculate number of days passed since last decrease
-      uint256 daysPassed = (currentMidnight - rewardHalvingTimestamp) / 86400;
-
-      // Apply 0.1% decrease for each day
-      for (uint256 i; i < daysPassed; ++i) {
-        newStepsRate = (newStepsRate * HALVING_RATE_NUMERATOR) / HALVING_RATE_DENOMINATOR; // Decrease by 0.1%
-        newMetsRate = (newMetsRate * HALVING_RATE_NUMERATOR) / HALVING_RATE_DENOMINATOR; // Decrease by 0.1%
-      }
-    }
-
-    return (newStepsRate, newMetsRate);
-  }
+  /**
+   * @dev Sets the UTC offset (in seconds) of the caller's local day, at whose start the daily steps
+   * and METs caps reset. It can only be changed once per UTC_OFFSET_CHANGE_COOLDOWN, so it cannot
+   * be used to reset the caps
+   */
+  function setUtcOffset(int256 offset) external whenNotPausedWithRevert {
+    if (offset < MIN_UTC_OFFSET || offset > MAX_UTC_OFFSET) revert InvalidUtcOffset(offset);
 
-  function registerReferral(address referrer) external whenNotPausedWithRevert {
-    if (referrer == address(0) || referrer == msg.sender) {
-      revert InvalidReferrer();
+    uint256 lastChange = utcOffsetUpdatedAt[msg.sender];
+    if (lastChange > 0 && block.timestamp < lastChange + UTC_OFFSET_CHANGE_COOLDOWN) {
+      revert UtcOffsetChangeTooSoon(lastChange, lastChange + UTC_OFFSET_CHANGE_COOLDOWN);
     }
 
-    if (userReferrals[msg.sender].referrer != address(0)) {
-      revert AlreadyReferred();
+    // The day of the last recorded activity has to be over under both the old and the new offset,
+    // otherwise the change would open another local day with a fresh daily cap and streak day
+    uint256 lastUpdated = userActivities[msg.sender].lastUpdated;
+    if (lastUpdated > 0) {
+      int256 currentOffset = userUtcOffsets[msg.sender];
+      uint256 lastDay = _localDay(lastUpdated, currentOffset);
+      uint256 lastDayUnderNew = _localDay(lastUpdated, offset);
+      if (lastDayUnderNew < lastDay) lastDayUnderNew = lastDay;
+      uint256 nextAllowed = _localDayEnd(lastDay, currentOffset);
+      uint256 newDayEnd = _localDayEnd(lastDayUnderNew, offset);
+      if (newDayEnd > nextAllowed) nextAllowed = newDayEnd;
+      if (block.timestamp < nextAllowed) revert UtcOffsetChangeBeforeDayEnd(nextAllowed);
     }
 
-    // Register the referral
-    userReferrals[msg.sender].referrer = referrer;
-    referrals[referrer].push(msg.sender);
-    userReferrals[referrer].referralCount++;
-
-    // Distribute 1 MVN token to both referrer and referee as a bonus
-    _distributeTokens(referrer, 1 * 10 ** 18, true);
-    _distributeTokens(msg.sender, 1 * 10 ** 18, true);
+    userUtcOffsets[msg.sender] = offset;
+    utcOffsetUpdatedAt[msg.sender] = block.timestamp;
 
-    emit ReferralRegistered(msg.sender, referrer);
+    emit UtcOffsetUpdated(msg.sender, offset);
   }
 
-  function getLastMealClaim(address user) external view returns (uint256) {
-    return lastMealClaim[user];
-  }
+  /**
+   * @dev Returns the current streak of consecutive local days on which the user reached
+   * streakStepsThreshold (0 once a day was missed) and the best streak so far
+   */
+  function getStreak(address user) external view returns (uint256 current, uint256 best) {
+    ActivityStreak memory streak = userStreaks[user];
+    uint256 today = _dayIndex(user, block.timestamp);
 
-  function getReferralInfo(
-    address user
-  ) external view returns (address referrer, uint256 earnedBonus, uint256 referralCount) {
-    ReferralInfo storage info = userReferrals[user];
-    return (info.referrer, info.earnedBonus, info.referralCount);
+    current = streak.lastDay + 1 >= today ? streak.current : 0;
+    best = streak.best;
   }
 
-  // V2: New function to get all referrals of a user
-  function getUserReferrals(address user) external view returns (address[] memory) {
-    return referrals[user];
+  // Current day of a user in their local time, as used by the activity ledger
+  function getUserDay(address user) external view returns (uint256) {
+    return _dayIndex(user, block.timestamp);
   }
 
-  // V2: Function to migrate base rates and halving timestamp
-  function migrateBaseRates(uint256 newStepsRate, uint256 newMetsRate) external onlyMigrator {
-    // Only migrate if rates are zero (indicating they weren't properly migrated)
-    if (baseStepsRate == 0 || baseMetsRate == 0) {
-      // Set both rates to 1 token (1 * 10^18 wei)
-      baseStepsRate = 1 * 10 ** 18;
-      baseMetsRate = 1 * 10 ** 18;
-    } else {
-      baseStepsRate = newStepsRate;
-      baseMetsRate = newMetsRate;
+  /**
+   * @dev Returns the daily steps, METs and activity rewards of a user for each day from fromDay to
+   * toDay (inclusive). Days are counted in the user's local time since the Unix epoch (see
+   * getUserDay) and the entry at index i belongs to day fromDay + i. At most
+   * MAX_ACTIVITY_HISTORY_DAYS can be read per call
+   */
+  function getActivityHistory(
+    address user,
+    uint256 fromDay,
+    uint256 toDay
+  ) external view returns (DailyActivity[] memory history) {
+    if (toDay < fromDay || toDay - fromDay >= MAX_ACTIVITY_HISTORY_DAYS) {
+      revert InvalidDayRange(fromDay, toDay);
     }
 
-    rewardHalvingTimestamp = block.timestamp;
-    emit RewardsRateDecreased(baseStepsRate, baseMetsRate, rewardHalvingTimestamp + 1 days);
+    history = new DailyActivity[](toDay - fromDay + 1);
+    for (uint256 i; i < history.length; ++i) {
+      history[i] = dailyActivities[user][fromDay + i];
+    }
   }
 
-  // Function to migrate lock period multipliers
-  function migrateLockPeriodMultipliers(
-    uint256[] calldata months,
-    uint256[] calldata multipliers
-  ) external onlyMigrator {
-    require(months.length == multipliers.length, 'Input arrays must have the same length');
+  function getBaseRates() external view returns (uint256 stepsRate, uint256 metsRate) {
+    return _getBaseRates();
+  }
 
-    for (uint256 i; i < months.length; ++i) {
-      lockPeriodMultipliers[months[i]] = multipliers[i];
-    }
+  function getLastMealClaim(address user) external view returns (uint256) {
+    return lastMealClaim[user];
   }
 
   // Add pausable functionality
-  function emergencyPause() external onlyOwner {
+  function emergencyPause() external onlyRole(PAUSER_ROLE) {
     _pause();
   }
 
-  function emergencyUnpause() external onlyOwner {
+  function emergencyUnpause() external onlyRole(PAUSER_ROLE) {
     _unpause();
   }
 
@@ -685,37 +177,6 @@ contract MOVINEarnV2 is
     emit Deposit(msg.sender, amount);
   }
 
-  modifier whenNotPausedWithRevert() {
-    if (paused()) revert ContractPaused();
-    _;
-  }
-
-  function setPremiumStatus(bool status, uint256 amount) external whenNotPausedWithRevert {
-    if (status) {
-      uint256 expirationTime;
-
-      if (amount == PREMIUM_EXPIRATION_TIME_MONTHLY_AMOUNT) {
-        expirationTime = block.timestamp + PREMIUM_EXPIRATION_TIME_MONTHLY;
-      } else if (amount == PREMIUM_EXPIRATION_TIME_YEARLY_AMOUNT) {
-        expirationTime = block.timestamp + PREMIUM_EXPIRATION_TIME_YEARLY;
-      } else {
-        revert InvalidPremiumAmount();
-      }
-
-      userPremiumData[msg.sender] = PremiumUserData({
-        status: status,
-        paid: amount,
-        expiration: expirationTime
-      });
-
-      movinToken.transferFrom(msg.sender, address(this), amount);
-    } else {
-      userPremiumData[msg.sender] = PremiumUserData({ status: status, paid: 0, expiration: 0 });
-    }
-
-    emit PremiumStatusChanged(msg.sender, status);
-  }
-
   function mintToken(address to, uint256 amount) external onlyOwner {
     movinToken.mint(to, amount);
     emit Minted(to, amount);
@@ -728,7 +189,7 @@ contract MOVINEarnV2 is
    * Score of 100 gives 1 MVN, score of 1 gives 0.01 MVN
    * Linear scaling: reward = score * 0.01 MVN
    */
-  function claimMealRewards(address user, uint256 score) external onlyOwner {
+  function claimMealRewards(address user, uint256 score) external onlyRole(MEAL_ORACLE_ROLE) {
     if (score < 1 || score > 100) revert InvalidMealScore();
 
     if (user == address(0)) revert InvalidUser();
@@ -743,6 +204,7 @@ contract MOVINEarnV2 is
     uint256 rewardAmount = score * 10 ** 16;
     // Use _distributeTokens helper to mint tokens if needed
     _distributeTokens(user, rewardAmount, true);
+    _payReferralShare(user, rewardAmount, REFERRAL_SOURCE_MEAL);
     emit MealRewardsClaimed(user, score, rewardAmount);
   }
 
@@ -757,13 +219,10 @@ contract MOVINEarnV2 is
     return rewardAmount;
   }
 
-  // Owner function to update lock period multipliers
-  function setLockPeriodMultiplier(uint256 months, uint256 multiplier) external onlyOwner {
-    require(months > 0, 'Invalid lock period');
-    lockPeriodMultipliers[months] = multiplier;
-  }
-
-  function setTransactionSync(address user, bool status) external onlyOwner {
+  function setTransactionSync(
+    address user,
+    bool status
+  ) external onlyRole(ACTIVITY_ORACLE_ROLE) {
     transactionSync[user] = status;
   }
 
@@ -781,60 +240,108 @@ contract MOVINEarnV2 is
 
   function getPremiumStatus(address user) external view returns (PremiumUserData memory) {
     PremiumUserData memory premiumData = userPremiumData[user];
+    premiumData.status = _isPremium(user);
 
-    bool isExpired = premiumData.expiration > 0 && premiumData.expiration < block.timestamp;
+    return premiumData;
+  }
 
-    if (isExpired) {
-      return
-        PremiumUserData({
-          status: false,
-          paid: premiumData.paid,
-          expiration: premiumData.expiration
-        });
+  /**
+   * @dev Routes function selectors to a module implementation
+   * @param module The module contract (address(0) removes the selectors)
+   * @param selectors The function selectors handled by the module
+   * Modules share this contract's storage, so registering one is equivalent to an upgrade
+   */
+  function setModule(address module, bytes4[] calldata selectors) external onlyRole(UPGRADER_ROLE) {
+    for (uint256 i; i < selectors.length; ++i) {
+      modules[selectors[i]] = module;
     }
 
-    return premiumData;
+    emit ModuleUpdated(module, selectors);
   }
 
-  function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+  /// @custom:oz-upgrades-unsafe-allow delegatecall
+  fallback() external {
+    address module = modules[msg.sig];
+    if (module == address(0)) revert UnknownFunction(msg.sig);
 
-  function _checkDailyDecrease() internal {
-    (uint256 newStepsRate, uint256 newMetsRate) = getBaseRates();
+    assembly {
+      calldatacopy(0, 0, calldatasize())
+      let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+      returndatacopy(0, 0, returndatasize())
 
-    if (newStepsRate != baseStepsRate || newMetsRate != baseMetsRate) {
-      baseStepsRate = newStepsRate;
-      baseMetsRate = newMetsRate;
-      rewardHalvingTimestamp = block.timestamp;
-
-      emit RewardsRateDecreased(baseStepsRate, baseMetsRate, rewardHalvingTimestamp + 1 days);
+      switch result
+      case 0 {
+        revert(0, returndatasize())
+      }
+      default {
+        return(0, returndatasize())
+      }
     }
   }
 
-  function _removeStake(address user, uint256 index) internal {
-    if (index >= userStakes[user].length) {
-      revert InvalidStakeIndex(index, userStakes[user].length - 1);
-    }
-
-    // Efficient array deletion without preserving order
-    if (index != userStakes[user].length - 1) {
-      userStakes[user][index] = userStakes[user][userStakes[user].length - 1];
-    }
-
-    userStakes[user].pop();
+  function _authorizeUpgrade(
+    address newImplementation
+  ) internal override onlyRole(UPGRADER_ROLE) {}
+
+  // The default admin role (which can grant and revoke the other roles) follows contract ownership
+  function _transferOwnership(address newOwner) internal override {
+    address previousOwner = owner();
+    super._transferOwnership(newOwner);
+
+    if (previousOwner != address(0)) _revokeRole(DEFAULT_ADMIN_ROLE, previousOwner);
+    if (newOwner != address(0)) _grantRole(DEFAULT_ADMIN_ROLE, newOwner);
+  }
+
+  // V3 state of fresh and upgraded proxies, skipped when it already ran (e.g. initializeV3 on a proxy
+  // set up by initialize) so that the seeded lists are not pushed twice
+  function _setupV3(address admin) internal {
+    if (bytes(_EIP712Name()).length != 0) return;
+
+    __EIP712_init('MOVINEarn', '1');
+    __Nonces_init();
+    __AccessControl_init();
+    _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    _grantOperationalRoles(admin);
+    earlyUnstakeBurnBps = 5_000;
+    _initializeStreaks();
+    _initializePremiumPlans();
+    premiumBurnBps = 10_000;
+    _initializeReferralBonusMilestone();
+    referralTierBps.push(REFERRAL_BONUS_PERCENT);
+  }
+
+  function _grantOperationalRoles(address account) internal {
+    _grantRole(MEAL_ORACLE_ROLE, account);
+    _grantRole(ACTIVITY_ORACLE_ROLE, account);
+    _grantRole(PAUSER_ROLE, account);
+    _grantRole(PARAMETER_ADMIN_ROLE, account);
+    _grantRole(UPGRADER_ROLE, account);
+  }
+
+  // The monthly and yearly plans that were hard-coded before the plans registry
+  function _initializePremiumPlans() internal {
+    uint256 allFeatures = PREMIUM_FEATURE_METS_REWARDS | PREMIUM_FEATURE_24_MONTH_STAKING;
+    _addPremiumPlan(
+      PREMIUM_EXPIRATION_TIME_MONTHLY_AMOUNT,
+      PREMIUM_EXPIRATION_TIME_MONTHLY,
+      allFeatures
+    );
+    _addPremiumPlan(
+      PREMIUM_EXPIRATION_TIME_YEARLY_AMOUNT,
+      PREMIUM_EXPIRATION_TIME_YEARLY,
+      allFeatures
+    );
   }
 
-  function _distributeTokens(address to, uint256 amount, bool shouldMint) internal {
-    if (amount == 0) return;
-
-    uint256 contractBalance = movinToken.balanceOf(address(this));
-    uint256 remainingSupply = movinToken.MAX_SUPPLY() - movinToken.totalSupply();
+  function _initializeStreaks() internal {
+    streakStepsThreshold = 10_000;
+    streakBonuses.push(StreakBonus({minDays: 7, bonusBps: 500}));
+    streakBonuses.push(StreakBonus({minDays: 30, bonusBps: 1_000}));
+  }
 
-    if (shouldMint && remainingSupply >= amount) {
-      movinToken.mint(to, amount);
-    } else if (contractBalance >= amount) {
-      erc20MovinToken.transfer(to, amount);
-    } else {
-      revert InsufficientBalance(contractBalance, amount);
-    }
+  function _initializeReferralBonusMilestone() internal {
+    referralBonusMinActiveDays = 3;
+    referralBonusMinSteps = 10_000;
+    referralBonusEscrowPeriod = 30 days;
   }
 }
@@ -0,0 +1,483 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import '@openzeppelin/contracts/utils/cryptography/ECDSA.sol';
+import '@openzeppelin/contracts/utils/cryptography/MerkleProof.sol';
+
+import '../MOVINEarnStorage.sol';
+
+error ActivityBatchLengthMismatch();
+error ActivityRootAlreadyPosted(uint256 day);
+error ActivityRootNotPosted(uint256 day);
+error ActivityDayNotOver(uint256 day);
+error ActivityAlreadySettled(address user, uint256 day);
+error InvalidActivityProof();
+
+/**
+ * @dev Activity recording of MOVINEarnV2: activity from the oracle (one user or a batch), its
+ * attestations or its daily Merkle roots, activity rewards with the streak bonus and their
+ * deferred claims.
+ * Runs through the MOVINEarnV2 fallback.
+ */
+contract MOVINEarnActivityModule is MOVINEarnStorage {
+  event ActivityBatchEntryProcessed(uint256 indexed index, address indexed user, bool recorded);
+  event DailyActivityRootPosted(uint256 indexed day, bytes32 root);
+  event ReferralTierBonusPaid(
+    address indexed referrer,
+    address indexed user,
+    uint256 indexed level,
+    uint256 amount
+  );
+  event DailyActivitySettled(
+    address indexed user,
+    uint256 indexed day,
+    uint256 steps,
+    uint256 mets,
+    uint256 reward
+  );
+
+  /// @custom:oz-upgrades-unsafe-allow constructor
+  constructor() {
+    _disableInitializers();
+  }
+
+  function calculateActivityRewards(
+    address user,
+    uint256 newSteps,
+    uint256 newMets
+  ) public view returns (uint256, uint256, uint256, uint256) {
+    UserActivity memory activity = userActivities[user];
+    uint256 dailySteps = activity.dailySteps;
+    uint256 dailyMets = activity.dailyMets;
+
+    if (_dayIndex(user, activity.lastUpdated) != _dayIndex(user, block.timestamp)) {
+      dailySteps = 0;
+      dailyMets = 0;
+    }
+
+    uint256 todaySteps = dailySteps + newSteps;
+    uint256 todayMets = dailyMets + newMets;
+
+    // Cap at max daily
+    if (todaySteps > MAX_DAILY_STEPS) todaySteps = MAX_DAILY_STEPS;
+    if (todayMets > MAX_DAILY_METS) todayMets = MAX_DAILY_METS;
+
+    (uint256 stepsReward, uint256 metsReward) = _activityRewards(
+      dailySteps,
+      dailyMets,
+      todaySteps,
+      todayMets,
+      _hasPremiumFeature(user, PREMIUM_FEATURE_METS_REWARDS)
+    );
+
+    // Streak bonus, counting today once the steps threshold is reached
+    uint256 bonusBps = _streakBonusBps(
+      _streakAfter(user, _dayIndex(user, block.timestamp), todaySteps)
+    );
+    stepsReward += (stepsReward * bonusBps) / 10_000;
+    metsReward += (metsReward * bonusBps) / 10_000;
+
+    return (stepsReward, metsReward, todaySteps, todayMets);
+  }
+
+  function recordActivity(
+    address user,
+    uint256 newSteps,
+    uint256 newMets
+  ) external whenNotPausedWithRevert onlyRole(ACTIVITY_ORACLE_ROLE) {
+    _recordActivity(user, newSteps, newMets);
+  }
+
+  /**
+   * @dev Records the activity of many users in one transaction
+   * Each entry goes through the same per-minute and daily validation as recordActivity. Invalid
+   * entries (zero address, nothing to record, activity that is not physically possible) are
+   * skipped instead of reverting the batch, every entry emits ActivityBatchEntryProcessed
+   * @return recorded The number of entries that were recorded
+   */
+  function recordActivityBatch(
+    address[] calldata users,
+    uint256[] calldata steps,
+    uint256[] calldata mets
+  ) external whenNotPausedWithRevert onlyRole(ACTIVITY_ORACLE_ROLE) returns (uint256 recorded) {
+    if (users.length != steps.length || users.length != mets.length) {
+      revert ActivityBatchLengthMismatch();
+    }
+
+    for (uint256 i; i < users.length; ++i) {
+      bool valid = users[i] != address(0) &&
+        (steps[i] > 0 || mets[i] > 0) &&
+        _isValidActivity(users[i], steps[i], mets[i]);
+
+      if (valid) {
+        _recordActivity(users[i], steps[i], mets[i]);
+        ++recorded;
+      }
+
+      emit ActivityBatchEntryProcessed(i, users[i], valid);
+    }
+  }
+
+  /**
+   * @dev Posts the Merkle root of the daily totals (user, day, steps, mets) of every user for a day
+   * Days are absolute day indices in each user's local time (see getUserDay). Leaves are
+   * keccak256(bytes.concat(keccak256(abi.encode(user, day, steps, mets)))), see
+   * scripts/activity-merkle.ts. A posted root cannot be replaced
+   */
+  function postDailyActivityRoot(
+    uint256 day,
+    bytes32 root
+  ) external whenNotPausedWithRevert onlyRole(ACTIVITY_ORACLE_ROLE) {
+    if (dailyActivityRoots[day] != bytes32(0)) revert ActivityRootAlreadyPosted(day);
+
+    dailyActivityRoots[day] = root;
+    emit DailyActivityRootPosted(day, root);
+  }
+
+  /**
+   * @dev Settles a user's activity for a past day from the oracle's Merkle root
+   * Applies the same daily caps, reward rates, premium METs rule and referral bonus as
+   * recordActivity, with premium checked for the settled day; activity already recorded for that
+   * day is not rewarded twice. Settled days extend streaks and get the streak bonus like recorded
+   * ones, as long as they are settled in order: a day older than the streak's last day gets no
+   * bonus. Can be submitted by the user or a relayer, rewards always go to the user
+   */
+  function claimDailyActivity(
+    address user,
+    uint256 day,
+    uint256 steps,
+    uint256 mets,
+    bytes32[] calldata proof
+  ) external whenNotPausedWithRevert nonReentrant {
+    bytes32 root = dailyActivityRoots[day];
+    if (root == bytes32(0)) revert ActivityRootNotPosted(day);
+    if (day >= _dayIndex(user, block.timestamp)) revert ActivityDayNotOver(day);
+    if (settledActivityDays[user][day]) revert ActivityAlreadySettled(user, day);
+
+    bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(user, day, steps, mets))));
+    if (!MerkleProof.verifyCalldata(proof, root, leaf)) revert InvalidActivityProof();
+
+    settledActivityDays[user][day] = true;
+    _checkDailyDecrease();
+    _checkPremium(user);
+
+    // Cap at max daily
+    if (steps > MAX_DAILY_STEPS) steps = MAX_DAILY_STEPS;
+    if (mets > MAX_DAILY_METS) mets = MAX_DAILY_METS;
+
+    DailyActivity storage dailyActivity = dailyActivities[user][day];
+    if (dailyActivity.steps == 0 && dailyActivity.mets == 0 && (steps > 0 || mets > 0)) {
+      ++activeDays[user];
+    }
+
+    // METs are only rewarded if the user had premium on the settled day, not just at claim time
+    (uint256 stepsReward, uint256 metsReward) = _activityRewards(
+      dailyActivity.steps,
+      dailyActivity.mets,
+      steps,
+      mets,
+      _hadPremiumFeatureOn(user, day, PREMIUM_FEATURE_METS_REWARDS)
+    );
+
+    if (steps > dailyActivity.steps) {
+      userSteps[user] += steps - dailyActivity.steps;
+      dailyActivity.steps = steps;
+    }
+    if (mets > dailyActivity.mets) {
+      userMets[user] += mets - dailyActivity.mets;
+      dailyActivity.mets = mets;
+    }
+
+    uint256 bonusBps = _streakBonusBps(_streakAfter(user, day, dailyActivity.steps));
+    stepsReward += (stepsReward * bonusBps) / 10_000;
+    metsReward += (metsReward * bonusBps) / 10_000;
+    _updateStreak(user, day, dailyActivity.steps);
+
+    dailyActivity.rewards += stepsReward + metsReward;
+
+    emit DailyActivitySettled(user, day, steps, mets, stepsReward + metsReward);
+
+    _payActivityRewards(user, stepsReward, metsReward);
+  }
+
+  /**
+   * @dev Records activity signed off-chain by the activity oracle
+   * @param attestation The signed activity data (user, steps, mets, period, nonce, deadline)
+   * @param signature The oracle's EIP-712 signature over the attestation
+   * Can be submitted by the user or a relayer; each nonce can only be used once per user
+   */
+  function recordActivityWithAttestation(
+    ActivityAttestation calldata attestation,
+    bytes calldata signature
+  ) external whenNotPausedWithRevert {
+    if (block.timestamp > attestation.deadline) revert AttestationExpired(attestation.deadline);
+
+    bytes32 structHash = keccak256(
+      abi.encode(
+        ACTIVITY_ATTESTATION_TYPEHASH,
+        attestation.user,
+        attestation.steps,
+        attestation.mets,
+        attestation.period,
+        attestation.nonce,
+        attestation.deadline
+      )
+    );
+    address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+    if (!hasRole(ACTIVITY_ORACLE_ROLE, signer)) revert InvalidAttestationSigner(signer);
+
+    _useCheckedNonce(attestation.user, attestation.nonce);
+
+    emit ActivityAttested(attestation.user, attestation.period, attestation.nonce);
+
+    _recordActivity(attestation.user, attestation.steps, attestation.mets);
+  }
+
+  function _recordActivity(address user, uint256 newSteps, uint256 newMets) internal {
+    // Skip validation completely if both inputs are zero
+    // This allows referral registration to work properly
+    if (newSteps <= 0 && newMets <= 0) {
+      return;
+    }
+
+    uint256 today = _dayIndex(user, block.timestamp);
+    UserActivity storage activity = userActivities[user];
+
+    // Check if activity doesn't exist or timestamp doesn't match current day
+    if (_dayIndex(user, activity.lastUpdated) != today) {
+      activity.dailySteps = 0;
+      activity.dailyMets = 0;
+    }
+
+    if (!_isValidActivity(user, newSteps, newMets)) revert InvalidActivityInput();
+
+    _checkDailyDecrease();
+    _checkPremium(user);
+
+    // Calculate rewards based on current daily totals
+    (
+      uint256 stepsReward,
+      uint256 metsReward,
+      uint256 todaySteps,
+      uint256 todayMets
+    ) = calculateActivityRewards(user, newSteps, newMets);
+
+    activity.dailySteps = todaySteps;
+    activity.dailyMets = todayMets;
+
+    _updateStreak(user, today, todaySteps);
+
+    DailyActivity storage dailyActivity = dailyActivities[user][today];
+    if (dailyActivity.steps == 0 && dailyActivity.mets == 0) ++activeDays[user];
+    dailyActivity.steps = todaySteps;
+    dailyActivity.mets = todayMets;
+    dailyActivity.rewards += stepsReward + metsReward;
+
+    // Update the total steps and METs counters for the user
+    userSteps[user] += newSteps;
+    userMets[user] += newMets;
+
+    emit ActivityRecorded(user, todaySteps, todayMets, todaySteps, todayMets, block.timestamp);
+
+    activity.lastUpdated = block.timestamp;
+
+    // Deferred mode: accrue now, mint once when the rewards are claimed
+    if (deferredActivityRewards || userDeferredActivityRewards[user]) {
+      activity.pendingStepsRewards += stepsReward;
+      activity.pendingMetsRewards += metsReward;
+      activity.lastRewardAccumulationTime = block.timestamp;
+
+      emit ActivityRewardsDeferred(user, stepsReward, metsReward);
+      return;
+    }
+
+    _payActivityRewards(user, stepsReward, metsReward);
+  }
+
+  /**
+   * @dev Mints the activity rewards accrued in deferred mode, along with the referral bonus
+   * Can be called by the user or by a relayer on their behalf, rewards always go to the user
+   */
+  function claimActivityRewards() external {
+    claimActivityRewardsFor(msg.sender);
+  }
+
+  function claimActivityRewardsFor(address user) public whenNotPausedWithRevert nonReentrant {
+    UserActivity storage activity = userActivities[user];
+    uint256 stepsReward = activity.pendingStepsRewards;
+    uint256 metsReward = activity.pendingMetsRewards;
+    if (stepsReward + metsReward == 0) revert NoRewardsAvailable();
+
+    activity.pendingStepsRewards = 0;
+    activity.pendingMetsRewards = 0;
+
+    _payActivityRewards(user, stepsReward, metsReward);
+  }
+
+  // Lets a user accrue their activity rewards instead of receiving them on every sync
+  function setDeferredActivityRewards(bool enabled) external {
+    userDeferredActivityRewards[msg.sender] = enabled;
+    emit DeferredRewardsUpdated(msg.sender, enabled);
+  }
+
+  // Defers the activity rewards of every user, regardless of their own setting
+  function setGlobalDeferredActivityRewards(
+    bool enabled
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) {
+    deferredActivityRewards = enabled;
+    emit GlobalDeferredRewardsUpdated(enabled);
+  }
+
+  function _payActivityRewards(address user, uint256 stepsReward, uint256 metsReward) internal {
+    uint256 totalReward = stepsReward + metsReward;
+
+    // Send full reward to user
+    _distributeTokens(user, totalReward, true);
+
+    // Send the referral bonus of each tier up the referrer chain, level 1 is the direct referrer.
+    // Chains registered before loops were rejected stop when they reach the user again
+    address referrer = userReferrals[user].referrer;
+    uint256 tiers = referralTierBps.length;
+
+    for (uint256 level = 1; level <= tiers && referrer != address(0) && referrer != user; ++level) {
+      // Calculate referral bonus using basis points (100 = 1%)
+      uint256 referralBonus = (totalReward * referralTierBps[level - 1]) / 10000;
+
+      if (referralBonus > 0) {
+        _distributeTokens(referrer, referralBonus, true);
+
+        // earnedBonus keeps the total over all levels
+        userReferrals[referrer].earnedBonus += referralBonus;
+        userReferrals[referrer].activityBonus += referralBonus;
+        referralBonusByLevel[referrer][level] += referralBonus;
+
+        // ReferralBonusPaid keeps covering direct referrals only
+        if (level == 1) emit ReferralBonusPaid(referrer, user, referralBonus);
+        emit ReferralTierBonusPaid(referrer, user, level, referralBonus);
+      }
+
+      referrer = userReferrals[referrer].referrer;
+    }
+
+    emit RewardsClaimed(user, stepsReward, metsReward, totalReward);
+  }
+
+  // Rewards for raising a user's daily totals from the previous to the new (capped) totals
+  function _activityRewards(
+    uint256 previousSteps,
+    uint256 previousMets,
+    uint256 steps,
+    uint256 mets,
+    bool metsRewarded
+  ) internal view returns (uint256 stepsReward, uint256 metsReward) {
+    // Calculate rewards: 1 MVN per 1000 steps
+    if (steps > previousSteps) {
+      stepsReward = ((steps - previousSteps) * baseStepsRate) / 1000;
+    }
+    if (mets > previousMets && metsRewarded) {
+      metsReward = ((mets - previousMets) * baseMetsRate) / 5;
+    }
+  }
+
+  /**
+   * @dev Whether the user's subscription was active at some point of a past local day and its plan
+   * includes a PREMIUM_FEATURE_* flag. A subscription bought after a lapse only counts from the
+   * day it was bought
+   */
+  function _hadPremiumFeatureOn(
+    address user,
+    uint256 day,
+    uint256 feature
+  ) internal view returns (bool) {
+    PremiumUserData memory premiumData = userPremiumData[user];
+    int256 dayStart = int256(day * 1 days) - userUtcOffsets[user];
+
+    if (premiumData.since != 0 && int256(premiumData.since) >= dayStart + 1 days) return false;
+    if (premiumData.expiration == 0) {
+      if (!premiumData.status) return false;
+    } else if (int256(premiumData.expiration) <= dayStart) {
+      return false;
+    }
+
+    // Subscriptions from before the plans registry include every feature
+    return premiumData.planId == 0 || premiumPlans[premiumData.planId].features & feature != 0;
+  }
+
+  // Whether the new activity is physically possible since the user's last update
+  function _isValidActivity(
+    address user,
+    uint256 newSteps,
+    uint256 newMets
+  ) internal view returns (bool) {
+    UserActivity memory activity = userActivities[user];
+
+    if (_dayIndex(user, activity.lastUpdated) != _dayIndex(user, block.timestamp)) {
+      activity.dailySteps = 0;
+      activity.dailyMets = 0;
+    }
+
+    // First-time activity recording
+    if (activity.lastUpdated == 0 || (activity.dailySteps == 0 && activity.dailyMets == 0)) {
+      return true;
+    }
+
+    // Calculate elapsed minutes (rounded down) since last update
+    uint256 elapsedMinutes = (block.timestamp - activity.lastUpdated) / 60;
+
+    // Prevent activity recording too frequently (must wait at least 1 minute)
+    if (elapsedMinutes == 0) return false;
+
+    // Check time-based limits for physically possible activity
+    if (newSteps > 0 && activity.dailySteps > 0 && newSteps > elapsedMinutes * MAX_STEPS_PER_MINUTE) {
+      return false;
+    }
+    return !(newMets > 0 && activity.dailyMets > 0 && newMets > elapsedMinutes * MAX_METS_PER_MINUTE);
+  }
+
+  function _updateStreak(address user, uint256 day, uint256 daySteps) internal {
+    ActivityStreak storage streak = userStreaks[user];
+    if (daySteps < streakStepsThreshold || streak.lastDay >= day) return;
+
+    streak.current = _streakAfter(user, day, daySteps);
+    streak.lastDay = day;
+    if (streak.current > streak.best) streak.best = streak.current;
+
+    emit StreakUpdated(user, streak.current, streak.best);
+  }
+
+  /**
+   * @dev Streak length once a day's steps are recorded, the day only counts when it reaches the
+   * threshold. Days older than the streak's last day are out of order and have no streak
+   */
+  function _streakAfter(
+    address user,
+    uint256 day,
+    uint256 daySteps
+  ) internal view returns (uint256) {
+    ActivityStreak memory streak = userStreaks[user];
+
+    if (streak.lastDay == day) return streak.current;
+    if (streak.lastDay > day) return 0;
+    if (daySteps < streakStepsThreshold) return streak.lastDay + 1 == day ? streak.current : 0;
+    return streak.lastDay + 1 == day ? streak.current + 1 : 1;
+  }
+
+  // Bonus of the highest schedule entry reached, the schedule is sorted by minDays
+  function _streakBonusBps(uint256 streakDays) internal view returns (uint256 bonusBps) {
+    for (uint256 i; i < streakBonuses.length && streakBonuses[i].minDays <= streakDays; ++i) {
+      bonusBps = streakBonuses[i].bonusBps;
+    }
+  }
+
+  function _checkDailyDecrease() internal {
+    (uint256 newStepsRate, uint256 newMetsRate) = _getBaseRates();
+
+    if (newStepsRate != baseStepsRate || newMetsRate != baseMetsRate) {
+      baseStepsRate = newStepsRate;
+      baseMetsRate = newMetsRate;
+      rewardHalvingTimestamp = block.timestamp;
+
+      emit RewardsRateDecreased(baseStepsRate, baseMetsRate, rewardHalvingTimestamp + 1 days);
+    }
+  }
+}
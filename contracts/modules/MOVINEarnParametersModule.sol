@@ -0,0 +1,369 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import '../MOVINEarnStorage.sol';
+
+error ParameterChangeNotFound(uint256 changeId);
+error ParameterChangeNotReady(uint256 executeAfter);
+error InvalidBasisPoints(uint256 basisPoints);
+error InvalidStreakBonusSchedule();
+error InvalidPremiumTreasury(address treasury);
+error InvalidReferralBonusMilestone();
+error InvalidReferralTiers();
+
+/**
+ * @dev Timelocked economic parameters of MOVINEarnV2 (lock period multipliers, base reward rates,
+ * the staking claim window, the early unstake burn ratio, activity streaks, premium plans, the
+ * routing of premium payments, the referral signup bonus milestone, the referral tiers and the
+ * referral shares of staking and meal rewards).
+ * Every change is queued first and can only be executed once PARAMETER_CHANGE_DELAY has passed,
+ * so stakers and the app can see it coming. Runs through the MOVINEarnV2 fallback.
+ */
+contract MOVINEarnParametersModule is MOVINEarnStorage {
+  bytes32 public constant LOCK_PERIOD_MULTIPLIER = keccak256('LOCK_PERIOD_MULTIPLIER');
+  bytes32 public constant BASE_RATES = keccak256('BASE_RATES');
+  bytes32 public constant STAKING_CLAIM_WINDOW = keccak256('STAKING_CLAIM_WINDOW');
+  bytes32 public constant EARLY_UNSTAKE_BURN_RATIO = keccak256('EARLY_UNSTAKE_BURN_RATIO');
+  bytes32 public constant STREAK_STEPS_THRESHOLD = keccak256('STREAK_STEPS_THRESHOLD');
+  bytes32 public constant STREAK_BONUS_SCHEDULE = keccak256('STREAK_BONUS_SCHEDULE');
+  bytes32 public constant PREMIUM_PAYMENT_SPLIT = keccak256('PREMIUM_PAYMENT_SPLIT');
+  bytes32 public constant PREMIUM_TREASURY = keccak256('PREMIUM_TREASURY');
+  bytes32 public constant PREMIUM_PLAN = keccak256('PREMIUM_PLAN');
+  bytes32 public constant PREMIUM_PLAN_STATUS = keccak256('PREMIUM_PLAN_STATUS');
+  bytes32 public constant REFERRAL_BONUS_MILESTONE = keccak256('REFERRAL_BONUS_MILESTONE');
+  bytes32 public constant REFERRAL_TIERS = keccak256('REFERRAL_TIERS');
+  bytes32 public constant REFERRAL_SOURCE_SHARES = keccak256('REFERRAL_SOURCE_SHARES');
+  uint256 public constant MAX_STREAK_BONUSES = 10;
+
+  event ParameterChangeQueued(
+    uint256 indexed changeId,
+    bytes32 indexed parameter,
+    bytes data,
+    uint256 executeAfter
+  );
+  event ParameterChangeExecuted(uint256 indexed changeId, bytes32 indexed parameter, bytes data);
+  event ParameterChangeCancelled(uint256 indexed changeId, bytes32 indexed parameter);
+
+  /// @custom:oz-upgrades-unsafe-allow constructor
+  constructor() {
+    _disableInitializers();
+  }
+
+  /**
+   * @dev Queues a new multiplier (APR percentage) for a lock period. Existing stakes earn it from
+   * the execution on, time before that keeps the old multiplier
+   * @param months The lock period in months
+   * @param multiplier The new multiplier, 0 disables the lock period for new stakes
+   */
+  function queueLockPeriodMultiplier(
+    uint256 months,
+    uint256 multiplier
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (months == 0) revert InvalidLockPeriod(months);
+    return _queueParameterChange(LOCK_PERIOD_MULTIPLIER, abi.encode(months, multiplier));
+  }
+
+  /**
+   * @dev Queues new base steps and METs reward rates
+   * The daily 0.1% decrease restarts from these rates once the change is executed
+   */
+  function queueBaseRates(
+    uint256 newStepsRate,
+    uint256 newMetsRate
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (newStepsRate == 0 || newMetsRate == 0) revert ZeroAmountNotAllowed();
+    return _queueParameterChange(BASE_RATES, abi.encode(newStepsRate, newMetsRate));
+  }
+
+  /**
+   * @dev Queues a new cap on how long staking rewards accrue without a claim
+   * @param window The claim window in seconds, 0 lets rewards accrue without a cap
+   */
+  function queueStakingClaimWindow(
+    uint256 window
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    return _queueParameterChange(STAKING_CLAIM_WINDOW, abi.encode(window));
+  }
+
+  /**
+   * @dev Queues a new split of early unstake penalties
+   * @param burnBps The burned share in basis points (10000 = 100%), the rest goes to the reward pool
+   */
+  function queueEarlyUnstakeBurnRatio(
+    uint256 burnBps
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (burnBps > 10_000) revert InvalidBasisPoints(burnBps);
+    return _queueParameterChange(EARLY_UNSTAKE_BURN_RATIO, abi.encode(burnBps));
+  }
+
+  // Queues the daily steps a user needs to reach for the day to count towards their streak
+  function queueStreakStepsThreshold(
+    uint256 threshold
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (threshold == 0 || threshold > MAX_DAILY_STEPS) revert InvalidActivityInput();
+    return _queueParameterChange(STREAK_STEPS_THRESHOLD, abi.encode(threshold));
+  }
+
+  /**
+   * @dev Queues a new streak bonus schedule, replacing the current one
+   * @param bonuses Entries sorted by strictly increasing minDays, each bonus in basis points
+   */
+  function queueStreakBonusSchedule(
+    StreakBonus[] calldata bonuses
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (bonuses.length > MAX_STREAK_BONUSES) revert InvalidStreakBonusSchedule();
+
+    for (uint256 i; i < bonuses.length; ++i) {
+      if (bonuses[i].minDays == 0 || (i > 0 && bonuses[i].minDays <= bonuses[i - 1].minDays)) {
+        revert InvalidStreakBonusSchedule();
+      }
+      if (bonuses[i].bonusBps > 10_000) revert InvalidBasisPoints(bonuses[i].bonusBps);
+    }
+
+    return _queueParameterChange(STREAK_BONUS_SCHEDULE, abi.encode(bonuses));
+  }
+
+  /**
+   * @dev Queues a new split of premium payments, in basis points adding up to 10000
+   * A treasury share needs premiumTreasury to be set when the change is executed
+   */
+  function queuePremiumPaymentSplit(
+    uint256 burnBps,
+    uint256 treasuryBps,
+    uint256 rewardPoolBps
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    uint256 totalBps = burnBps + treasuryBps + rewardPoolBps;
+    if (totalBps != 10_000) revert InvalidBasisPoints(totalBps);
+
+    return
+      _queueParameterChange(
+        PREMIUM_PAYMENT_SPLIT,
+        abi.encode(burnBps, treasuryBps, rewardPoolBps)
+      );
+  }
+
+  // Queues a new address receiving the treasury share of premium payments
+  function queuePremiumTreasury(
+    address treasury
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (treasury == address(0)) revert InvalidPremiumTreasury(treasury);
+    return _queueParameterChange(PREMIUM_TREASURY, abi.encode(treasury));
+  }
+
+  /**
+   * @dev Queues a new premium plan, users can subscribe to it once the change is executed
+   * @param price The price of one period in MVN (wei)
+   * @param duration The length of one period in seconds
+   * @param features Bitmask of PREMIUM_FEATURE_* flags included in the plan
+   */
+  function queuePremiumPlan(
+    uint256 price,
+    uint256 duration,
+    uint256 features
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (price == 0 || duration == 0) revert ZeroAmountNotAllowed();
+    return _queueParameterChange(PREMIUM_PLAN, abi.encode(price, duration, features));
+  }
+
+  // Queues the activation or deactivation of an existing premium plan
+  function queuePremiumPlanStatus(
+    uint256 planId,
+    bool active
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (planId == 0 || planId > premiumPlanCount) revert InvalidPremiumPlan(planId);
+    return _queueParameterChange(PREMIUM_PLAN_STATUS, abi.encode(planId, active));
+  }
+
+  /**
+   * @dev Queues the milestone a referee must reach for the escrowed signup bonus to be released
+   * @param minActiveDays Days with recorded activity, 0 for no minimum
+   * @param minSteps Total steps (userSteps), 0 for no minimum
+   * @param escrowPeriod How long new referrals have to reach the milestone, in seconds
+   */
+  function queueReferralBonusMilestone(
+    uint256 minActiveDays,
+    uint256 minSteps,
+    uint256 escrowPeriod
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (escrowPeriod == 0) revert InvalidReferralBonusMilestone();
+
+    return
+      _queueParameterChange(
+        REFERRAL_BONUS_MILESTONE,
+        abi.encode(minActiveDays, minSteps, escrowPeriod)
+      );
+  }
+
+  /**
+   * @dev Queues new referral tiers, replacing the current ones
+   * @param tierBps The bonus of each level up the referrer chain in basis points, the direct
+   * referrer first. At most MAX_REFERRAL_TIERS levels adding up to MAX_REFERRAL_TOTAL_BPS
+   */
+  function queueReferralTiers(
+    uint256[] calldata tierBps
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (tierBps.length > MAX_REFERRAL_TIERS) revert InvalidReferralTiers();
+
+    uint256 totalBps;
+    for (uint256 i; i < tierBps.length; ++i) {
+      totalBps += tierBps[i];
+    }
+    if (totalBps > MAX_REFERRAL_TOTAL_BPS) revert InvalidBasisPoints(totalBps);
+
+    return _queueParameterChange(REFERRAL_TIERS, abi.encode(tierBps));
+  }
+
+  /**
+   * @dev Queues the direct referrer's share of staking and meal rewards, in basis points up to
+   * MAX_REFERRAL_TOTAL_BPS each. Activity rewards use the referral tiers
+   */
+  function queueReferralSourceShares(
+    uint256 stakingBps,
+    uint256 mealBps
+  ) external onlyRole(PARAMETER_ADMIN_ROLE) returns (uint256) {
+    if (stakingBps > MAX_REFERRAL_TOTAL_BPS) revert InvalidBasisPoints(stakingBps);
+    if (mealBps > MAX_REFERRAL_TOTAL_BPS) revert InvalidBasisPoints(mealBps);
+
+    return _queueParameterChange(REFERRAL_SOURCE_SHARES, abi.encode(stakingBps, mealBps));
+  }
+
+  function executeParameterChange(uint256 changeId) external onlyRole(PARAMETER_ADMIN_ROLE) {
+    ParameterChange memory change = parameterChanges[changeId];
+    if (change.executeAfter == 0) revert ParameterChangeNotFound(changeId);
+    if (block.timestamp < change.executeAfter) revert ParameterChangeNotReady(change.executeAfter);
+
+    _removePendingParameterChange(changeId);
+
+    if (change.parameter == LOCK_PERIOD_MULTIPLIER) {
+      (uint256 months, uint256 multiplier) = abi.decode(change.data, (uint256, uint256));
+
+      // Unclaimed time before the change keeps the old multiplier
+      StakingRateCheckpoint[] storage checkpoints = stakingRateCheckpoints[months];
+      if (checkpoints.length == 0) {
+        checkpoints.push(StakingRateCheckpoint(0, lockPeriodMultipliers[months], 0));
+      }
+      checkpoints.push(
+        StakingRateCheckpoint(
+          block.timestamp,
+          multiplier,
+          _stakingRateIndexAt(months, block.timestamp)
+        )
+      );
+      lockPeriodMultipliers[months] = multiplier;
+    } else if (change.parameter == BASE_RATES) {
+      (baseStepsRate, baseMetsRate) = abi.decode(change.data, (uint256, uint256));
+      rewardHalvingTimestamp = block.timestamp;
+      emit RewardsRateDecreased(baseStepsRate, baseMetsRate, rewardHalvingTimestamp + 1 days);
+    } else if (change.parameter == STAKING_CLAIM_WINDOW) {
+      stakingClaimWindow = abi.decode(change.data, (uint256));
+    } else if (change.parameter == EARLY_UNSTAKE_BURN_RATIO) {
+      earlyUnstakeBurnBps = abi.decode(change.data, (uint256));
+    } else if (change.parameter == STREAK_STEPS_THRESHOLD) {
+      streakStepsThreshold = abi.decode(change.data, (uint256));
+    } else if (change.parameter == STREAK_BONUS_SCHEDULE) {
+      StreakBonus[] memory bonuses = abi.decode(change.data, (StreakBonus[]));
+
+      delete streakBonuses;
+      for (uint256 i; i < bonuses.length; ++i) {
+        streakBonuses.push(bonuses[i]);
+      }
+    } else if (change.parameter == PREMIUM_PAYMENT_SPLIT) {
+      (uint256 burnBps, uint256 treasuryBps, uint256 rewardPoolBps) = abi.decode(
+        change.data,
+        (uint256, uint256, uint256)
+      );
+      if (treasuryBps > 0 && premiumTreasury == address(0)) {
+        revert InvalidPremiumTreasury(premiumTreasury);
+      }
+
+      premiumBurnBps = burnBps;
+      premiumTreasuryBps = treasuryBps;
+      premiumRewardPoolBps = rewardPoolBps;
+    } else if (change.parameter == PREMIUM_TREASURY) {
+      premiumTreasury = abi.decode(change.data, (address));
+    } else if (change.parameter == PREMIUM_PLAN) {
+      (uint256 price, uint256 duration, uint256 features) = abi.decode(
+        change.data,
+        (uint256, uint256, uint256)
+      );
+      _addPremiumPlan(price, duration, features);
+    } else if (change.parameter == PREMIUM_PLAN_STATUS) {
+      (uint256 planId, bool active) = abi.decode(change.data, (uint256, bool));
+      premiumPlans[planId].active = active;
+      emit PremiumPlanStatusChanged(planId, active);
+    } else if (change.parameter == REFERRAL_BONUS_MILESTONE) {
+      (referralBonusMinActiveDays, referralBonusMinSteps, referralBonusEscrowPeriod) = abi.decode(
+        change.data,
+        (uint256, uint256, uint256)
+      );
+    } else if (change.parameter == REFERRAL_TIERS) {
+      referralTierBps = abi.decode(change.data, (uint256[]));
+    } else if (change.parameter == REFERRAL_SOURCE_SHARES) {
+      (referralStakingShareBps, referralMealShareBps) = abi.decode(
+        change.data,
+        (uint256, uint256)
+      );
+    }
+
+    emit ParameterChangeExecuted(changeId, change.parameter, change.data);
+  }
+
+  function cancelParameterChange(uint256 changeId) external onlyRole(PARAMETER_ADMIN_ROLE) {
+    if (parameterChanges[changeId].executeAfter == 0) revert ParameterChangeNotFound(changeId);
+    bytes32 parameter = parameterChanges[changeId].parameter;
+
+    _removePendingParameterChange(changeId);
+
+    emit ParameterChangeCancelled(changeId, parameter);
+  }
+
+  // Lists queued changes so the app can announce them (e.g. "APR changing on <executeAfter>")
+  function getPendingParameterChanges() external view returns (ParameterChange[] memory) {
+    uint256 count = pendingParameterChangeIds.length;
+    ParameterChange[] memory changes = new ParameterChange[](count);
+
+    for (uint256 i; i < count; ++i) {
+      changes[i] = parameterChanges[pendingParameterChangeIds[i]];
+    }
+
+    return changes;
+  }
+
+  function getStreakBonuses() external view returns (StreakBonus[] memory) {
+    return streakBonuses;
+  }
+
+  function getReferralTiers() external view returns (uint256[] memory) {
+    return referralTierBps;
+  }
+
+  function _queueParameterChange(bytes32 parameter, bytes memory data) internal returns (uint256) {
+    uint256 changeId = nextParameterChangeId++;
+    uint256 executeAfter = block.timestamp + PARAMETER_CHANGE_DELAY;
+
+    parameterChanges[changeId] = ParameterChange({
+      id: changeId,
+      parameter: parameter,
+      data: data,
+      executeAfter: executeAfter
+    });
+    pendingParameterChangeIds.push(changeId);
+
+    emit ParameterChangeQueued(changeId, parameter, data, executeAfter);
+    return changeId;
+  }
+
+  function _removePendingParameterChange(uint256 changeId) internal {
+    uint256 count = pendingParameterChangeIds.length;
+
+    for (uint256 i; i < count; ++i) {
+      if (pendingParameterChangeIds[i] == changeId) {
+        pendingParameterChangeIds[i] = pendingParameterChangeIds[count - 1];
+        pendingParameterChangeIds.pop();
+        break;
+      }
+    }
+
+    delete parameterChanges[changeId];
+  }
+}
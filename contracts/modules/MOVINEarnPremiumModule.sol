@@ -0,0 +1,205 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import '../MOVINEarnStorage.sol';
+
+/**
+ * @dev Premium subscriptions of MOVINEarnV2 and the plans registry they are bought from.
+ * Plans are added and (de)activated through the parameters timelock and cannot be edited once
+ * added: a price change is a new plan, the old one is deactivated.
+ * Runs through the MOVINEarnV2 fallback.
+ */
+contract MOVINEarnPremiumModule is MOVINEarnStorage {
+  /// @custom:oz-upgrades-unsafe-allow constructor
+  constructor() {
+    _disableInitializers();
+  }
+
+  /**
+   * @dev Subscribes to or renews an active premium plan
+   * Renewals stack onto the current expiration. Switching plans converts the remaining paid time
+   * at the new plan's price per second
+   */
+  function subscribe(uint256 planId) external whenNotPausedWithRevert nonReentrant {
+    _collectPremiumPayment(premiumPlans[planId].price);
+    _subscribe(msg.sender, planId);
+  }
+
+  /**
+   * @dev Buys or renews premium for someone else (e.g. a corporate-wellness partner covering an
+   * employee), paid by the caller and subject to the same rules as subscribe
+   */
+  function subscribeFor(
+    address beneficiary,
+    uint256 planId
+  ) external whenNotPausedWithRevert nonReentrant {
+    _collectPremiumPayment(premiumPlans[planId].price);
+    _sponsor(beneficiary, planId);
+  }
+
+  // subscribeFor for many beneficiaries on the same plan, paid by the caller in a single transfer
+  function subscribeForMany(
+    address[] calldata beneficiaries,
+    uint256 planId
+  ) external whenNotPausedWithRevert nonReentrant {
+    _collectPremiumPayment(premiumPlans[planId].price * beneficiaries.length);
+
+    for (uint256 i; i < beneficiaries.length; ++i) {
+      _sponsor(beneficiaries[i], planId);
+    }
+  }
+
+  /**
+   * @dev Cancels premium. Cancelling is not refunded: an active subscription stays active until
+   * its expiration, an expired one is reset
+   */
+  function cancelSubscription() external whenNotPausedWithRevert {
+    if (_checkPremium(msg.sender)) {
+      emit PremiumCancelled(msg.sender, userPremiumData[msg.sender].expiration);
+      return;
+    }
+
+    delete userPremiumData[msg.sender];
+    emit PremiumStatusChanged(msg.sender, false);
+  }
+
+  /**
+   * @dev Lists the users a sponsor ever bought premium for, with their current premium data
+   * (status and expiration may also reflect renewals paid by the users themselves)
+   */
+  function getSponsoredUsers(
+    address sponsor
+  ) external view returns (address[] memory users, PremiumUserData[] memory premiumData) {
+    users = sponsoredUsers[sponsor];
+    premiumData = _premiumDataOf(users);
+  }
+
+  // getSponsoredUsers for up to limit users starting at offset, in first-sponsored order
+  function getSponsoredUsersPage(
+    address sponsor,
+    uint256 offset,
+    uint256 limit
+  ) external view returns (address[] memory users, PremiumUserData[] memory premiumData) {
+    address[] storage allUsers = sponsoredUsers[sponsor];
+    uint256 end = _pageEnd(allUsers.length, offset, limit);
+    users = new address[](end - offset);
+
+    for (uint256 i; i < users.length; ++i) {
+      users[i] = allUsers[offset + i];
+    }
+    premiumData = _premiumDataOf(users);
+  }
+
+  function getSponsoredUserCount(address sponsor) external view returns (uint256) {
+    return sponsoredUsers[sponsor].length;
+  }
+
+  // Plans that can be subscribed to, for the app's paywall
+  function getActivePremiumPlans() external view returns (PremiumPlan[] memory plans) {
+    uint256 count;
+    for (uint256 planId = 1; planId <= premiumPlanCount; ++planId) {
+      if (premiumPlans[planId].active) ++count;
+    }
+
+    plans = new PremiumPlan[](count);
+    uint256 index;
+    for (uint256 planId = 1; planId <= premiumPlanCount; ++planId) {
+      if (premiumPlans[planId].active) plans[index++] = premiumPlans[planId];
+    }
+  }
+
+  // Subscribes or renews a user and splits the price, collected from the caller beforehand
+  function _subscribe(address user, uint256 planId) internal {
+    PremiumPlan memory plan = premiumPlans[planId];
+    if (!plan.active) revert InvalidPremiumPlan(planId);
+
+    PremiumUserData storage premiumData = userPremiumData[user];
+    uint256 remaining = _checkPremium(user) && premiumData.expiration > block.timestamp
+      ? premiumData.expiration - block.timestamp
+      : 0;
+
+    if (remaining > 0 && premiumData.planId != planId) {
+      (uint256 paidPrice, uint256 paidDuration) = _subscribedTerms(premiumData);
+      remaining = (remaining * paidPrice * plan.duration) / (paidDuration * plan.price);
+    }
+
+    if (remaining == 0) premiumData.since = block.timestamp;
+    premiumData.status = true;
+    premiumData.paid = plan.price;
+    premiumData.expiration = block.timestamp + remaining + plan.duration;
+    premiumData.planId = planId;
+
+    _splitPremiumPayment(user, planId, plan.price);
+
+    emit PremiumRenewed(user, planId, plan.price, premiumData.expiration);
+    emit PremiumStatusChanged(user, true);
+  }
+
+  // Subscribes a beneficiary on the caller's behalf and lists them under the caller
+  function _sponsor(address beneficiary, uint256 planId) internal {
+    if (beneficiary == address(0)) revert InvalidUser();
+
+    _subscribe(beneficiary, planId);
+
+    if (!isSponsoredBy[msg.sender][beneficiary]) {
+      isSponsoredBy[msg.sender][beneficiary] = true;
+      sponsoredUsers[msg.sender].push(beneficiary);
+    }
+
+    emit PremiumSponsored(
+      msg.sender,
+      beneficiary,
+      planId,
+      userPremiumData[beneficiary].expiration
+    );
+  }
+
+  // Takes premium payments from the caller, they are split by _subscribe
+  function _collectPremiumPayment(uint256 amount) internal {
+    erc20MovinToken.transferFrom(msg.sender, address(this), amount);
+  }
+
+  // Splits a collected premium payment between burning, the treasury and the reward pool
+  function _splitPremiumPayment(address user, uint256 planId, uint256 price) internal {
+    uint256 burned = (price * premiumBurnBps) / 10_000;
+    uint256 toTreasury = (price * premiumTreasuryBps) / 10_000;
+    // The reward pool share stays in the contract balance, it also gets the rounding dust
+    uint256 toRewardPool = price - burned - toTreasury;
+
+    premiumRevenueBurned += burned;
+    premiumRevenueToTreasury += toTreasury;
+    premiumRevenueToRewardPool += toRewardPool;
+
+    if (burned > 0) movinToken.burn(burned);
+    if (toTreasury > 0) erc20MovinToken.transfer(premiumTreasury, toTreasury);
+
+    emit PremiumPaymentSplit(user, planId, burned, toTreasury, toRewardPool);
+  }
+
+  // Current premium data of users, with the status as of now
+  function _premiumDataOf(
+    address[] memory users
+  ) internal view returns (PremiumUserData[] memory premiumData) {
+    premiumData = new PremiumUserData[](users.length);
+
+    for (uint256 i; i < users.length; ++i) {
+      premiumData[i] = userPremiumData[users[i]];
+      premiumData[i].status = _isPremium(users[i]);
+    }
+  }
+
+  // Price and duration the current subscription was bought at
+  function _subscribedTerms(
+    PremiumUserData memory premiumData
+  ) internal view returns (uint256 price, uint256 duration) {
+    if (premiumData.planId != 0) {
+      return (premiumData.paid, premiumPlans[premiumData.planId].duration);
+    }
+
+    // Subscriptions from before the plans registry, bought at the hard-coded prices
+    duration = premiumData.paid == PREMIUM_EXPIRATION_TIME_YEARLY_AMOUNT
+      ? PREMIUM_EXPIRATION_TIME_YEARLY
+      : PREMIUM_EXPIRATION_TIME_MONTHLY;
+    return (premiumData.paid, duration);
+  }
+}
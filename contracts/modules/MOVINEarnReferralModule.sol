@@ -0,0 +1,237 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import '../MOVINEarnStorage.sol';
+
+error InvalidReferralCode(bytes32 code);
+error ReferralCodeUnavailable(bytes32 code);
+error ReferralCodeAlreadySet(address user, bytes32 code);
+error NoReferralBonusPending(address referee);
+error ReferralBonusExpired(address referee, uint256 expiresAt);
+error ReferralMilestoneNotReached(address referee);
+
+/**
+ * @dev Referrals of MOVINEarnV2, registered with the referrer's address or with a short code the
+ * referrer claimed (e.g. a vanity handle). Each user owns at most one code. A revoked code cannot
+ * be claimed again, so links already shared never credit someone else.
+ * The signup bonus is escrowed until the referee reaches the referral bonus milestone (active
+ * days and total steps), so referring one's own empty wallets earns nothing. Bonuses that are not
+ * released within the escrow period are forfeited.
+ * Runs through the MOVINEarnV2 fallback.
+ */
+contract MOVINEarnReferralModule is MOVINEarnStorage {
+  event ReferralCodeClaimed(bytes32 indexed code, address indexed owner);
+  event ReferralCodeTransferred(bytes32 indexed code, address indexed from, address indexed to);
+  event ReferralCodeRevoked(bytes32 indexed code, address indexed owner);
+  event ReferralBonusEscrowed(
+    address indexed referee,
+    address indexed referrer,
+    uint256 amount,
+    uint256 expiresAt
+  );
+  event ReferralBonusReleased(address indexed referee, address indexed referrer, uint256 amount);
+
+  uint256 public constant REFERRAL_SIGNUP_BONUS = 1 * 10 ** 18;
+
+  /// @custom:oz-upgrades-unsafe-allow constructor
+  constructor() {
+    _disableInitializers();
+  }
+
+  function registerReferral(address referrer) external whenNotPausedWithRevert {
+    _registerReferral(referrer);
+  }
+
+  function registerReferralWithCode(bytes32 code) external whenNotPausedWithRevert {
+    address referrer = referralCodeOwners[code];
+    if (referrer == address(0)) revert InvalidReferralCode(code);
+
+    _registerReferral(referrer);
+  }
+
+  /**
+   * @dev Claims an unused referral code for the caller
+   * @param code The code, e.g. ethers.encodeBytes32String('handle'). Codes are case-sensitive,
+   * the app is expected to normalize them
+   */
+  function claimReferralCode(bytes32 code) external whenNotPausedWithRevert {
+    if (code == bytes32(0)) revert InvalidReferralCode(code);
+    if (referralCodes[msg.sender] != bytes32(0)) {
+      revert ReferralCodeAlreadySet(msg.sender, referralCodes[msg.sender]);
+    }
+    if (referralCodeOwners[code] != address(0) || revokedReferralCodes[code]) {
+      revert ReferralCodeUnavailable(code);
+    }
+
+    referralCodeOwners[code] = msg.sender;
+    referralCodes[msg.sender] = code;
+
+    emit ReferralCodeClaimed(code, msg.sender);
+  }
+
+  /**
+   * @dev Hands the caller's code over to another address that has no code yet (e.g. a new wallet).
+   * Referrals registered before the transfer stay with the previous owner
+   */
+  function transferReferralCode(address to) external whenNotPausedWithRevert {
+    bytes32 code = referralCodes[msg.sender];
+    if (code == bytes32(0)) revert InvalidReferralCode(code);
+    if (to == address(0) || to == msg.sender) revert InvalidUser();
+    if (referralCodes[to] != bytes32(0)) revert ReferralCodeAlreadySet(to, referralCodes[to]);
+
+    delete referralCodes[msg.sender];
+    referralCodes[to] = code;
+    referralCodeOwners[code] = to;
+
+    emit ReferralCodeTransferred(code, msg.sender, to);
+  }
+
+  // Gives up the caller's code for good, the caller can then claim another one
+  function revokeReferralCode() external whenNotPausedWithRevert {
+    bytes32 code = referralCodes[msg.sender];
+    if (code == bytes32(0)) revert InvalidReferralCode(code);
+
+    _revokeReferralCode(code, msg.sender);
+  }
+
+  // Retires a code on the owner's behalf (e.g. a handle impersonating someone else)
+  function forceRevokeReferralCode(bytes32 code) external onlyRole(PARAMETER_ADMIN_ROLE) {
+    address codeOwner = referralCodeOwners[code];
+    if (codeOwner == address(0)) revert InvalidReferralCode(code);
+
+    _revokeReferralCode(code, codeOwner);
+  }
+
+  /**
+   * @dev Pays the escrowed signup bonus to a referee and their referrer once the referee reached
+   * the milestone. Anyone can call it, e.g. the app's relayer after an activity sync
+   */
+  function releaseReferralBonus(address referee) external whenNotPausedWithRevert {
+    ReferralSignupBonus memory bonus = referralSignupBonuses[referee];
+    if (bonus.amount == 0) revert NoReferralBonusPending(referee);
+    if (block.timestamp > bonus.expiresAt) revert ReferralBonusExpired(referee, bonus.expiresAt);
+    if (
+      activeDays[referee] < referralBonusMinActiveDays ||
+      userSteps[referee] < referralBonusMinSteps
+    ) {
+      revert ReferralMilestoneNotReached(referee);
+    }
+
+    delete referralSignupBonuses[referee];
+    address referrer = userReferrals[referee].referrer;
+
+    _distributeTokens(referrer, bonus.amount, true);
+    _distributeTokens(referee, bonus.amount, true);
+
+    emit ReferralBonusReleased(referee, referrer, bonus.amount);
+  }
+
+  /**
+   * @dev Lists the referees of a referrer whose signup bonus is still in escrow and not expired
+   * @return referees The referees, in registration order
+   * @return bonuses The escrowed bonus of each referee (amount paid to each party, expiration)
+   */
+  function getPendingReferralBonuses(
+    address referrer
+  ) external view returns (address[] memory referees, ReferralSignupBonus[] memory bonuses) {
+    address[] storage allReferees = referrals[referrer];
+    uint256 count;
+    for (uint256 i; i < allReferees.length; ++i) {
+      if (_isReferralBonusPending(allReferees[i])) ++count;
+    }
+
+    referees = new address[](count);
+    bonuses = new ReferralSignupBonus[](count);
+    uint256 index;
+    for (uint256 i; i < allReferees.length; ++i) {
+      if (_isReferralBonusPending(allReferees[i])) {
+        referees[index] = allReferees[i];
+        bonuses[index++] = referralSignupBonuses[allReferees[i]];
+      }
+    }
+  }
+
+  function getReferralInfo(
+    address user
+  ) external view returns (address referrer, uint256 earnedBonus, uint256 referralCount) {
+    ReferralInfo storage info = userReferrals[user];
+    return (info.referrer, info.earnedBonus, info.referralCount);
+  }
+
+  // Referral bonuses a referrer earned, by reward source
+  function getReferralEarnings(
+    address user
+  ) external view returns (uint256 activityBonus, uint256 stakingBonus, uint256 mealBonus) {
+    ReferralInfo storage info = userReferrals[user];
+    return (info.activityBonus, info.stakingBonus, info.mealBonus);
+  }
+
+  // V2: New function to get all referrals of a user
+  function getUserReferrals(address user) external view returns (address[] memory) {
+    return referrals[user];
+  }
+
+  // Returns up to limit referrals of a user starting at offset, in registration order
+  function getUserReferralsPage(
+    address user,
+    uint256 offset,
+    uint256 limit
+  ) external view returns (address[] memory page) {
+    address[] storage userReferees = referrals[user];
+    uint256 end = _pageEnd(userReferees.length, offset, limit);
+    page = new address[](end - offset);
+
+    for (uint256 i; i < page.length; ++i) {
+      page[i] = userReferees[offset + i];
+    }
+  }
+
+  function getUserReferralCount(address user) external view returns (uint256) {
+    return referrals[user].length;
+  }
+
+  function _registerReferral(address referrer) internal {
+    if (referrer == address(0) || referrer == msg.sender) {
+      revert InvalidReferrer();
+    }
+
+    if (userReferrals[msg.sender].referrer != address(0)) {
+      revert AlreadyReferred();
+    }
+
+    // Referrer chains cannot loop within the levels paid by the referral tiers
+    address ancestor = userReferrals[referrer].referrer;
+    for (uint256 i = 1; i < MAX_REFERRAL_TIERS && ancestor != address(0); ++i) {
+      if (ancestor == msg.sender) revert InvalidReferrer();
+      ancestor = userReferrals[ancestor].referrer;
+    }
+
+    // Register the referral
+    userReferrals[msg.sender].referrer = referrer;
+    referrals[referrer].push(msg.sender);
+    userReferrals[referrer].referralCount++;
+
+    // Escrow the 1 MVN signup bonus of both referrer and referee until the milestone is reached
+    uint256 expiresAt = block.timestamp + referralBonusEscrowPeriod;
+    referralSignupBonuses[msg.sender] = ReferralSignupBonus({
+      amount: REFERRAL_SIGNUP_BONUS,
+      expiresAt: expiresAt
+    });
+
+    emit ReferralRegistered(msg.sender, referrer);
+    emit ReferralBonusEscrowed(msg.sender, referrer, REFERRAL_SIGNUP_BONUS, expiresAt);
+  }
+
+  function _isReferralBonusPending(address referee) internal view returns (bool) {
+    ReferralSignupBonus storage bonus = referralSignupBonuses[referee];
+    return bonus.amount > 0 && block.timestamp <= bonus.expiresAt;
+  }
+
+  function _revokeReferralCode(bytes32 code, address codeOwner) internal {
+    delete referralCodeOwners[code];
+    delete referralCodes[codeOwner];
+    revokedReferralCodes[code] = true;
+
+    emit ReferralCodeRevoked(code, codeOwner);
+  }
+}
@@ -0,0 +1,639 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import '../MOVINEarnStorage.sol';
+
+error InvalidStakeId(uint256 stakeId);
+error LockPeriodEnded(uint256 unlockTime);
+error AutoCompoundNotEnabled(uint256 stakeId);
+
+/**
+ * @dev Staking of MOVINEarnV2: stakes, staking rewards, (partial) unstaking, splitting, merging
+ * and restaking.
+ * Rewards accrue for the full time since the last claim, capped by stakingClaimWindow when set,
+ * at the multiplier of the stake's lock period in effect at each point of that time.
+ * Every stake keeps the ID it was created with (its position in userStakes). The index-based
+ * functions address the user's open stakes by their position in the user's open stake list, where
+ * closing a stake moves the last one into its place as the V2 indices did. They are kept for
+ * existing integrations.
+ * Auto-compounding stakes add their rewards to the principal whenever they are settled.
+ * Runs through the MOVINEarnV2 fallback.
+ */
+contract MOVINEarnStakingModule is MOVINEarnStorage {
+  /// @custom:oz-upgrades-unsafe-allow constructor
+  constructor() {
+    _disableInitializers();
+  }
+
+  function stakeTokens(
+    uint256 amount,
+    uint256 lockMonths
+  ) external nonReentrant whenNotPausedWithRevert returns (uint256) {
+    if (amount == 0) revert ZeroAmountNotAllowed();
+    if (lockPeriodMultipliers[lockMonths] == 0) revert InvalidLockPeriod(lockMonths);
+    if (lockMonths == 24 && !_hasPremiumFeature(msg.sender, PREMIUM_FEATURE_24_MONTH_STAKING)) {
+      revert UnauthorizedAccess();
+    }
+    _checkPremium(msg.sender);
+
+    erc20MovinToken.transferFrom(msg.sender, address(this), amount);
+
+    uint256 lockPeriod = lockMonths * 30 days;
+    uint256 stakeId = _createStake(msg.sender, amount, lockPeriod);
+
+    emit Staked(msg.sender, amount, lockPeriod, stakeId);
+    return stakeId;
+  }
+
+  function claimStakingRewards(uint256 stakeIndex) external nonReentrant whenNotPausedWithRevert {
+    _claimStakingRewards(_stakeIdAt(msg.sender, stakeIndex));
+  }
+
+  function claimStakingRewardsById(
+    uint256 stakeId
+  ) external nonReentrant whenNotPausedWithRevert {
+    _claimStakingRewards(stakeId);
+  }
+
+  function claimAllStakingRewards() external nonReentrant whenNotPausedWithRevert {
+    uint256 stakeCount = userStakes[msg.sender].length;
+
+    // Settle every open stake with the same accounting as claimStakingRewards
+    uint256 totalReward = 0;
+    uint256 openStakeCount = 0;
+
+    for (uint256 i; i < stakeCount; ++i) {
+      if (userStakes[msg.sender][i].amount == 0) continue;
+
+      totalReward += _settleStakingReward(msg.sender, i);
+      ++openStakeCount;
+    }
+
+    // Add minimum threshold of 1 finney (0.001 ether) to prevent claiming tiny amounts
+    if (totalReward == 0 || totalReward < 0.001 ether) revert NoRewardsAvailable();
+
+    // Distribute rewards using the helper function
+    _distributeTokens(msg.sender, totalReward, false);
+    _payReferralShare(msg.sender, totalReward, REFERRAL_SOURCE_STAKING);
+
+    // Emit event
+    emit AllStakingRewardsClaimed(msg.sender, totalReward, openStakeCount);
+  }
+
+  function unstake(uint256 stakeIndex) external nonReentrant whenNotPausedWithRevert {
+    _unstake(_stakeIdAt(msg.sender, stakeIndex));
+  }
+
+  function unstakeById(uint256 stakeId) external nonReentrant whenNotPausedWithRevert {
+    _unstake(stakeId);
+  }
+
+  /**
+   * @dev Withdraws part of a matured stake, the 1% burn fee applies to the withdrawn amount.
+   * Rewards accrued so far stay claimable on the stake. Withdrawing the whole amount unstakes it
+   */
+  function partialUnstake(
+    uint256 stakeId,
+    uint256 amount
+  ) external nonReentrant whenNotPausedWithRevert {
+    Stake storage stake = _maturedStake(msg.sender, stakeId);
+
+    if (amount == 0) revert ZeroAmountNotAllowed();
+    if (amount > stake.amount) revert InsufficientBalance(stake.amount, amount);
+    if (amount == stake.amount) return _unstake(stakeId);
+
+    _checkpointStakingReward(msg.sender, stakeId);
+    compoundedStakeAmounts[msg.sender][stakeId] -=
+      (compoundedStakeAmounts[msg.sender][stakeId] * amount) / stake.amount;
+    _setStakeAmount(msg.sender, stakeId, stake.amount - amount);
+
+    uint256 burnAmount = (amount * UNSTAKE_BURN_FEES_PERCENT) / 100;
+    _distributeTokens(msg.sender, amount - burnAmount, false);
+    movinToken.burn(burnAmount);
+
+    emit PartiallyUnstaked(msg.sender, stakeId, amount, stake.amount);
+  }
+
+  /**
+   * @dev Moves part of a stake into a new stake with the same start time and lock period.
+   * Rewards accrued so far stay claimable on the original stake
+   */
+  function splitStake(
+    uint256 stakeId,
+    uint256 amount
+  ) external nonReentrant whenNotPausedWithRevert returns (uint256) {
+    Stake storage stake = _openStake(msg.sender, stakeId);
+
+    if (amount == 0) revert ZeroAmountNotAllowed();
+    if (amount >= stake.amount) revert InsufficientBalance(stake.amount, amount);
+
+    _checkpointStakingReward(msg.sender, stakeId);
+    uint256 compoundedAmount = (compoundedStakeAmounts[msg.sender][stakeId] * amount) /
+      stake.amount;
+    compoundedStakeAmounts[msg.sender][stakeId] -= compoundedAmount;
+    _setStakeAmount(msg.sender, stakeId, stake.amount - amount);
+
+    // The new stake shares the claim window of the original one
+    userStakes[msg.sender].push(
+      Stake({
+        amount: amount,
+        startTime: stake.startTime,
+        lockDuration: stake.lockDuration,
+        lastClaimed: stake.lastClaimed
+      })
+    );
+    uint256 newStakeId = userStakes[msg.sender].length - 1;
+    _addOpenStake(msg.sender, newStakeId);
+    stakingRewardCheckpoints[msg.sender][newStakeId] = block.timestamp;
+    compoundedStakeAmounts[msg.sender][newStakeId] = compoundedAmount;
+    autoCompoundStakes[msg.sender][newStakeId] = autoCompoundStakes[msg.sender][stakeId];
+
+    emit StakeSplit(msg.sender, stakeId, newStakeId, amount);
+    return newStakeId;
+  }
+
+  /**
+   * @dev Closes a stake before its lock period ends. On top of the unstake burn fee, a penalty of
+   * up to EARLY_UNSTAKE_MAX_PENALTY_PERCENT is charged, decreasing linearly with the remaining lock
+   * time. The penalty is split between burning and the reward pool (earlyUnstakeBurnBps).
+   * Unclaimed rewards are forfeited
+   */
+  function earlyUnstake(uint256 stakeId) external nonReentrant whenNotPausedWithRevert {
+    (uint256 payout, uint256 penalty, uint256 forfeitedRewards) = previewEarlyUnstake(
+      msg.sender,
+      stakeId
+    );
+    uint256 amount = userStakes[msg.sender][stakeId].amount;
+    uint256 penaltyBurn = (penalty * earlyUnstakeBurnBps) / 10_000;
+    uint256 burnAmount = amount - payout - penalty + penaltyBurn;
+
+    _closeStake(msg.sender, stakeId);
+    _distributeTokens(msg.sender, payout, false);
+    movinToken.burn(burnAmount);
+
+    emit EarlyUnstaked(
+      msg.sender,
+      stakeId,
+      amount,
+      penalty,
+      burnAmount,
+      penalty - penaltyBurn,
+      forfeitedRewards
+    );
+  }
+
+  // New function for restaking without burning fees
+  function restake(
+    uint256 stakeIndex,
+    uint256 lockMonths
+  ) external nonReentrant whenNotPausedWithRevert returns (uint256) {
+    return _restake(_stakeIdAt(msg.sender, stakeIndex), lockMonths);
+  }
+
+  function restakeById(
+    uint256 stakeId,
+    uint256 lockMonths
+  ) external nonReentrant whenNotPausedWithRevert returns (uint256) {
+    return _restake(stakeId, lockMonths);
+  }
+
+  /**
+   * @dev Merges matured stakes into one new stake with a new lock period, without burning fees.
+   * The unclaimed rewards of the merged stakes stay claimable on the new stake, which does not
+   * auto-compound until it is opted in again
+   */
+  function restakeMerged(
+    uint256[] calldata stakeIds,
+    uint256 lockMonths
+  ) external nonReentrant whenNotPausedWithRevert returns (uint256) {
+    _checkRestakeLockPeriod(lockMonths);
+    if (stakeIds.length == 0) revert ZeroAmountNotAllowed();
+
+    uint256 amount;
+    uint256 reward;
+    uint256 compoundedAmount;
+
+    for (uint256 i; i < stakeIds.length; ++i) {
+      Stake storage stake = _maturedStake(msg.sender, stakeIds[i]);
+
+      reward += _settleStakingReward(msg.sender, stakeIds[i]);
+      amount += stake.amount;
+      compoundedAmount += compoundedStakeAmounts[msg.sender][stakeIds[i]];
+      _closeStake(msg.sender, stakeIds[i]);
+    }
+
+    uint256 lockPeriod = lockMonths * 30 days;
+    uint256 newStakeId = _createStake(msg.sender, amount, lockPeriod);
+    accruedStakingRewards[msg.sender][newStakeId] = reward;
+    compoundedStakeAmounts[msg.sender][newStakeId] = compoundedAmount;
+
+    emit StakesMerged(msg.sender, stakeIds, newStakeId, amount, lockPeriod);
+    return newStakeId;
+  }
+
+  /**
+   * @dev Opts a stake in or out of auto-compounding. If the stake was auto-compounding, rewards
+   * accrued so far are compounded right away. Otherwise they stay pending on the stake, and once
+   * auto-compounding is on they are compounded along with later rewards at the next settlement
+   */
+  function setAutoCompound(uint256 stakeId, bool enabled) external whenNotPausedWithRevert {
+    _openStake(msg.sender, stakeId);
+    _checkpointStakingReward(msg.sender, stakeId);
+    autoCompoundStakes[msg.sender][stakeId] = enabled;
+
+    emit AutoCompoundUpdated(msg.sender, stakeId, enabled);
+  }
+
+  // Compounds the rewards of an auto-compounding stake, callable by anyone (e.g. a keeper)
+  function poke(address user, uint256 stakeId) external nonReentrant whenNotPausedWithRevert {
+    _openStake(user, stakeId);
+    if (!autoCompoundStakes[user][stakeId]) revert AutoCompoundNotEnabled(stakeId);
+
+    _settleStakingReward(user, stakeId);
+  }
+
+  // Returns the open stakes of a user in index order
+  function getUserStakes(address user) external view returns (StakeView[] memory stakeViews) {
+    stakeViews = new StakeView[](_openStakeCount(user));
+
+    for (uint256 i; i < stakeViews.length; ++i) {
+      stakeViews[i] = _stakeView(user, _stakeIdAt(user, i));
+    }
+  }
+
+  /**
+   * @dev Returns up to limit open stakes of a user, starting at the open stake index offset
+   * (the index used by the index-based functions)
+   */
+  function getUserStakesPage(
+    address user,
+    uint256 offset,
+    uint256 limit
+  ) external view returns (StakeView[] memory stakeViews) {
+    uint256 end = _pageEnd(_openStakeCount(user), offset, limit);
+    stakeViews = new StakeView[](end - offset);
+
+    for (uint256 i; i < stakeViews.length; ++i) {
+      stakeViews[i] = _stakeView(user, _stakeIdAt(user, offset + i));
+    }
+  }
+
+  function getUserStake(uint256 index) external view returns (StakeView memory) {
+    return _stakeView(msg.sender, _stakeIdAt(msg.sender, index));
+  }
+
+  function getUserStakeById(address user, uint256 stakeId) external view returns (StakeView memory) {
+    _openStake(user, stakeId);
+    return _stakeView(user, stakeId);
+  }
+
+  function getUserStakeCount() external view returns (uint256) {
+    return _openStakeCount(msg.sender);
+  }
+
+  function getUserStakeCountOf(address user) external view returns (uint256) {
+    return _openStakeCount(user);
+  }
+
+  // Number of addresses that ever staked, including those without open stakes anymore
+  function getStakerCount() external view returns (uint256) {
+    return stakers.length;
+  }
+
+  /**
+   * @dev Returns up to limit stakers starting at offset, in first-stake order
+   * @return users The stakers
+   * @return stakeCounts The number of open stakes of each staker
+   * @return totalStaked The amount staked by each staker over their open stakes
+   */
+  function getStakersPage(
+    uint256 offset,
+    uint256 limit
+  )
+    external
+    view
+    returns (address[] memory users, uint256[] memory stakeCounts, uint256[] memory totalStaked)
+  {
+    uint256 end = _pageEnd(stakers.length, offset, limit);
+    users = new address[](end - offset);
+    stakeCounts = new uint256[](users.length);
+    totalStaked = new uint256[](users.length);
+
+    for (uint256 i; i < users.length; ++i) {
+      users[i] = stakers[offset + i];
+      StakerInfo storage info = stakerInfos[users[i]];
+      stakeCounts[i] = info.openStakeIds.length;
+      totalStaked[i] = info.totalStaked;
+    }
+  }
+
+  // Adds addresses that staked before stakers were enumerated along with their open stakes, others
+  // are skipped
+  function indexStakers(address[] calldata users) external onlyRole(PARAMETER_ADMIN_ROLE) {
+    for (uint256 i; i < users.length; ++i) {
+      if (userStakes[users[i]].length > 0) _indexStaker(users[i]);
+    }
+  }
+
+  // Converts the index used by the index-based functions into the stake ID
+  function getStakeId(address user, uint256 stakeIndex) external view returns (uint256) {
+    return _stakeIdAt(user, stakeIndex);
+  }
+
+  function calculateStakingReward(address user, uint256 stakeIndex) external view returns (uint256) {
+    return calculateStakingRewardById(user, _stakeIdAt(user, stakeIndex));
+  }
+
+  /**
+   * @dev Returns what earlyUnstake would pay out now, the penalty it would charge
+   * (excluding the unstake burn fee) and the unclaimed rewards it would forfeit
+   */
+  function previewEarlyUnstake(
+    address user,
+    uint256 stakeId
+  ) public view returns (uint256 payout, uint256 penalty, uint256 forfeitedRewards) {
+    Stake storage stake = _openStake(user, stakeId);
+    uint256 unlockTime = stake.startTime + stake.lockDuration;
+
+    if (block.timestamp >= unlockTime) revert LockPeriodEnded(unlockTime);
+
+    uint256 remainingLock = unlockTime - block.timestamp;
+    uint256 burnFee = (stake.amount * UNSTAKE_BURN_FEES_PERCENT) / 100;
+
+    penalty =
+      (stake.amount * EARLY_UNSTAKE_MAX_PENALTY_PERCENT * remainingLock) /
+      (100 * stake.lockDuration);
+    payout = stake.amount - burnFee - penalty;
+    forfeitedRewards = calculateStakingRewardById(user, stakeId);
+  }
+
+  function calculateStakingRewardById(address user, uint256 stakeId) public view returns (uint256) {
+    Stake storage stake = _openStake(user, stakeId);
+    uint256 accrued = accruedStakingRewards[user][stakeId];
+
+    // Rewards accrue since the last claim or checkpoint, up to the claim window after the last
+    // claim if one is set
+    uint256 start = stake.lastClaimed;
+    if (stakingRewardCheckpoints[user][stakeId] > start) {
+      start = stakingRewardCheckpoints[user][stakeId];
+    }
+    uint256 end = block.timestamp;
+    if (stakingClaimWindow > 0 && stake.lastClaimed + stakingClaimWindow < end) {
+      end = stake.lastClaimed + stakingClaimWindow;
+    }
+    if (end <= start) return accrued;
+
+    uint256 lockMonths = stake.lockDuration / 30 days;
+    uint256 aprSeconds = _stakingRateIndexAt(lockMonths, end) -
+      _stakingRateIndexAt(lockMonths, start);
+
+    // Calculate reward: (amount * apr * duration) / (100 * 365 days)
+    // The division by 100 converts apr from percentage to decimal
+    // The division by 365 days is because APR is annual
+    uint256 reward = (stake.amount * aprSeconds) / (100 * 365 days);
+
+    return accrued + reward;
+  }
+
+  function _claimStakingRewards(uint256 stakeId) internal {
+    uint256 reward = _settleStakingReward(msg.sender, stakeId);
+
+    // Add minimum threshold of 1 finney (0.001 ether) to prevent claiming tiny amounts
+    if (reward == 0 || reward < 0.001 ether) {
+      // If the reward is too small, revert with NoRewardsAvailable
+      // This avoids unnecessary token distribution attempts
+      revert NoRewardsAvailable();
+    }
+
+    // Use _distributeTokens helper to mint tokens if needed
+    _distributeTokens(msg.sender, reward, false);
+    _payReferralShare(msg.sender, reward, REFERRAL_SOURCE_STAKING);
+
+    emit StakingRewardsClaimed(msg.sender, stakeId, reward);
+  }
+
+  function _unstake(uint256 stakeId) internal {
+    Stake storage stake = _maturedStake(msg.sender, stakeId);
+
+    // Unclaimed rewards are paid out with the principal instead of being lost (or compounded)
+    uint256 reward = calculateStakingRewardById(msg.sender, stakeId);
+    uint256 amount = stake.amount;
+    uint256 burnAmount = (amount * UNSTAKE_BURN_FEES_PERCENT) / 100;
+    uint256 userPayout = amount - burnAmount;
+
+    _closeStake(msg.sender, stakeId);
+    _distributeTokens(msg.sender, userPayout + reward, false);
+    movinToken.burn(burnAmount);
+    _payReferralShare(msg.sender, reward, REFERRAL_SOURCE_STAKING);
+
+    if (reward > 0) emit StakingRewardsClaimed(msg.sender, stakeId, reward);
+    emit Unstaked(msg.sender, amount, stakeId);
+  }
+
+  function _restake(uint256 stakeId, uint256 lockMonths) internal returns (uint256) {
+    _checkRestakeLockPeriod(lockMonths);
+
+    Stake storage stake = _maturedStake(msg.sender, stakeId);
+    uint256 reward = _settleStakingReward(msg.sender, stakeId);
+    uint256 amount = stake.amount;
+    uint256 lockPeriod = lockMonths * 30 days;
+    uint256 compoundedAmount = compoundedStakeAmounts[msg.sender][stakeId];
+    bool autoCompound = autoCompoundStakes[msg.sender][stakeId];
+
+    // Close the old stake first to prevent any reentrancy issues
+    _closeStake(msg.sender, stakeId);
+
+    // Create a new stake with the same amount, unclaimed rewards of the old stake stay claimable on it
+    uint256 newStakeId = _createStake(msg.sender, amount, lockPeriod);
+    accruedStakingRewards[msg.sender][newStakeId] = reward;
+    compoundedStakeAmounts[msg.sender][newStakeId] = compoundedAmount;
+    autoCompoundStakes[msg.sender][newStakeId] = autoCompound;
+
+    emit Restaked(msg.sender, amount, lockPeriod, newStakeId, stakeId);
+    return newStakeId;
+  }
+
+  function _createStake(
+    address user,
+    uint256 amount,
+    uint256 lockPeriod
+  ) internal returns (uint256) {
+    _indexStaker(user);
+    userStakes[user].push(
+      Stake({
+        amount: amount,
+        startTime: block.timestamp,
+        lockDuration: lockPeriod,
+        lastClaimed: block.timestamp
+      })
+    );
+
+    uint256 stakeId = userStakes[user].length - 1;
+    _addOpenStake(user, stakeId);
+    return stakeId;
+  }
+
+  // Moves the pending reward of a stake out of its accumulator and restarts accrual from now.
+  // Auto-compounding stakes add it to their principal, pay the referrer's share and return 0
+  function _settleStakingReward(address user, uint256 stakeId) internal returns (uint256) {
+    Stake storage stake = userStakes[user][stakeId];
+    uint256 reward = calculateStakingRewardById(user, stakeId);
+
+    stake.lastClaimed = block.timestamp;
+    delete accruedStakingRewards[user][stakeId];
+    delete stakingRewardCheckpoints[user][stakeId];
+
+    if (!autoCompoundStakes[user][stakeId] || reward == 0) return reward;
+
+    _setStakeAmount(user, stakeId, stake.amount + reward);
+    compoundedStakeAmounts[user][stakeId] += reward;
+    _payReferralShare(user, reward, REFERRAL_SOURCE_STAKING);
+
+    emit StakeCompounded(user, stakeId, reward, stake.amount);
+    return 0;
+  }
+
+  // Keeps the pending reward of a stake in its accumulator before its amount changes, without
+  // restarting the claim window. Auto-compounding stakes compound it instead
+  function _checkpointStakingReward(address user, uint256 stakeId) internal {
+    if (autoCompoundStakes[user][stakeId]) {
+      _settleStakingReward(user, stakeId);
+      return;
+    }
+
+    accruedStakingRewards[user][stakeId] = calculateStakingRewardById(user, stakeId);
+    stakingRewardCheckpoints[user][stakeId] = block.timestamp;
+  }
+
+  // Closed stakes keep their slot so that the IDs of the other stakes never change
+  function _closeStake(address user, uint256 stakeId) internal {
+    _indexStaker(user);
+    _removeOpenStake(user, stakeId);
+    delete userStakes[user][stakeId];
+    delete accruedStakingRewards[user][stakeId];
+    delete stakingRewardCheckpoints[user][stakeId];
+    delete compoundedStakeAmounts[user][stakeId];
+    delete autoCompoundStakes[user][stakeId];
+  }
+
+  function _openStake(address user, uint256 stakeId) internal view returns (Stake storage) {
+    if (stakeId >= userStakes[user].length || userStakes[user][stakeId].amount == 0) {
+      revert InvalidStakeId(stakeId);
+    }
+
+    return userStakes[user][stakeId];
+  }
+
+  function _maturedStake(address user, uint256 stakeId) internal view returns (Stake storage) {
+    Stake storage stake = _openStake(user, stakeId);
+    uint256 unlockTime = stake.startTime + stake.lockDuration;
+
+    // Check if the lock period is still active
+    if (block.timestamp < unlockTime) {
+      revert LockPeriodActive(unlockTime);
+    }
+
+    return stake;
+  }
+
+  function _checkRestakeLockPeriod(uint256 lockMonths) internal {
+    if (lockPeriodMultipliers[lockMonths] == 0) revert InvalidLockPeriod(lockMonths);
+    if (lockMonths == 24 && !_hasPremiumFeature(msg.sender, PREMIUM_FEATURE_24_MONTH_STAKING)) {
+      revert UnauthorizedAccess();
+    }
+    _checkPremium(msg.sender);
+  }
+
+  // Reverts with the number of open stakes when the index is out of range, which can be 0
+  function _stakeIdAt(address user, uint256 stakeIndex) internal view returns (uint256) {
+    StakerInfo storage info = stakerInfos[user];
+    if (info.tracked) {
+      if (stakeIndex >= info.openStakeIds.length) {
+        revert InvalidStakeIndex(stakeIndex, info.openStakeIds.length);
+      }
+      return info.openStakeIds[stakeIndex];
+    }
+
+    // Stakers from before the upgrade that are not indexed yet, their open stakes in ID order
+    uint256 stakeCount = userStakes[user].length;
+    uint256 index;
+
+    for (uint256 i; i < stakeCount; ++i) {
+      if (userStakes[user][i].amount == 0) continue;
+      if (index == stakeIndex) return i;
+      ++index;
+    }
+
+    revert InvalidStakeIndex(stakeIndex, index);
+  }
+
+  // Starts tracking the open stakes of a staker, including those opened before the upgrade
+  function _indexStaker(address user) internal {
+    StakerInfo storage info = stakerInfos[user];
+    if (info.tracked) return;
+
+    info.tracked = true;
+    stakers.push(user);
+
+    uint256 stakeCount = userStakes[user].length;
+    for (uint256 i; i < stakeCount; ++i) {
+      if (userStakes[user][i].amount > 0) _addOpenStake(user, i);
+    }
+  }
+
+  function _addOpenStake(address user, uint256 stakeId) internal {
+    StakerInfo storage info = stakerInfos[user];
+
+    info.openStakeIds.push(stakeId);
+    info.openStakePositions[stakeId] = info.openStakeIds.length;
+    info.totalStaked += userStakes[user][stakeId].amount;
+  }
+
+  // Swap-and-pop, the last open stake takes the index of the removed one
+  function _removeOpenStake(address user, uint256 stakeId) internal {
+    StakerInfo storage info = stakerInfos[user];
+    uint256 position = info.openStakePositions[stakeId];
+    uint256 lastStakeId = info.openStakeIds[info.openStakeIds.length - 1];
+
+    info.openStakeIds[position - 1] = lastStakeId;
+    info.openStakePositions[lastStakeId] = position;
+    info.openStakeIds.pop();
+    delete info.openStakePositions[stakeId];
+    info.totalStaked -= userStakes[user][stakeId].amount;
+  }
+
+  // Changes the amount of an open stake, keeping the staker's total up to date
+  function _setStakeAmount(address user, uint256 stakeId, uint256 amount) internal {
+    _indexStaker(user);
+    Stake storage stake = userStakes[user][stakeId];
+
+    stakerInfos[user].totalStaked = stakerInfos[user].totalStaked - stake.amount + amount;
+    stake.amount = amount;
+  }
+
+  function _openStakeCount(address user) internal view returns (uint256 count) {
+    StakerInfo storage info = stakerInfos[user];
+    if (info.tracked) return info.openStakeIds.length;
+
+    uint256 stakeCount = userStakes[user].length;
+    for (uint256 i; i < stakeCount; ++i) {
+      if (userStakes[user][i].amount > 0) ++count;
+    }
+  }
+
+  function _stakeView(address user, uint256 stakeId) internal view returns (StakeView memory) {
+    Stake memory stake = userStakes[user][stakeId];
+
+    return
+      StakeView({
+        amount: stake.amount,
+        startTime: stake.startTime,
+        lockDuration: stake.lockDuration,
+        lastClaimed: stake.lastClaimed,
+        rewards: calculateStakingRewardById(user, stakeId),
+        id: stakeId,
+        compounded: compoundedStakeAmounts[user][stakeId],
+        autoCompound: autoCompoundStakes[user][stakeId]
+      });
+  }
+}
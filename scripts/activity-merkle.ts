@@ -0,0 +1,75 @@
+import { AbiCoder, BigNumberish, concat, keccak256 } from 'ethers';
+
+// Daily activity totals of a user, as settled by MOVINEarnActivityModule.claimDailyActivity
+export interface ActivityEntry {
+  user: string;
+  day: BigNumberish; // Absolute day index in the user's local time (MOVINEarnV2.getUserDay)
+  steps: BigNumberish;
+  mets: BigNumberish;
+}
+
+export interface ActivityTree {
+  root: string;
+  layers: string[][]; // Sorted leaves first, root last
+}
+
+// Leaf of an entry: keccak256(bytes.concat(keccak256(abi.encode(user, day, steps, mets))))
+export function hashActivityEntry(entry: ActivityEntry): string {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ['address', 'uint256', 'uint256', 'uint256'],
+    [entry.user, entry.day, entry.steps, entry.mets]
+  );
+  return keccak256(keccak256(encoded));
+}
+
+// Pairs are hashed in sorted order, as expected by OpenZeppelin's MerkleProof
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Builds the Merkle tree of one day of activity, whose root is posted with postDailyActivityRoot.
+ * A node without a sibling is carried up to the next layer unchanged.
+ */
+export function buildActivityTree(entries: ActivityEntry[]): ActivityTree {
+  if (entries.length === 0) {
+    throw new Error('Cannot build an activity tree without entries');
+  }
+
+  const leaves = entries.map(hashActivityEntry).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  if (new Set(leaves).size !== leaves.length) {
+    throw new Error('Duplicate activity entries');
+  }
+
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+// Proof for claimDailyActivity: the sibling of the entry's node on every layer that has one
+export function getActivityProof(tree: ActivityTree, entry: ActivityEntry): string[] {
+  let index = tree.layers[0].indexOf(hashActivityEntry(entry));
+  if (index === -1) {
+    throw new Error(`No activity entry for ${entry.user} on day ${entry.day}`);
+  }
+
+  const proof: string[] = [];
+  for (const layer of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return proof;
+}
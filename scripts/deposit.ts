@@ -22,6 +22,16 @@ async function main() {
 
   // Get contract instances
   const movinEarnV2 = await ethers.getContractAt('MOVINEarnV2', MOVIN_EARN_PROXY_ADDRESS, wallet);
+  const movinEarnStaking = await ethers.getContractAt(
+    'MOVINEarnStakingModule',
+    MOVIN_EARN_PROXY_ADDRESS,
+    wallet
+  );
+  const movinEarnPremium = await ethers.getContractAt(
+    'MOVINEarnPremiumModule',
+    MOVIN_EARN_PROXY_ADDRESS,
+    wallet
+  );
   const movinToken = await ethers.getContractAt('MovinToken', MOVIN_TOKEN_PROXY_ADDRESS, wallet);
 
   // Amount to deposit (in ether units - will be converted to wei)
@@ -67,14 +77,13 @@ async function main() {
   const contractBalance = await movinToken.balanceOf(MOVIN_EARN_PROXY_ADDRESS);
   console.log(`Contract token balance: ${ethers.formatEther(contractBalance)} MOVIN`);
 
-  const stakeCount = await movinEarnV2.connect(wallet).getUserStakeCount();
+  const stakeCount = await movinEarnStaking.connect(wallet).getUserStakeCount();
   console.log(`Stake count: ${stakeCount}`);
 
-  const premiumExpirationTimeMonthlyAmount =
-    await movinEarnV2.PREMIUM_EXPIRATION_TIME_MONTHLY_AMOUNT();
-  console.log(`Premium expiration time monthly amount: ${premiumExpirationTimeMonthlyAmount}`);
+  const premiumPlans = await movinEarnPremium.getActivePremiumPlans();
+  console.log(`Active premium plans: ${premiumPlans}`);
 
-  // await movinEarnV2.connect(wallet).setPremiumStatus(false, 0);
+  // await movinEarnPremium.cancelSubscription();
 
   const premiumStatus = await movinEarnV2.getPremiumStatus(wallet.address);
   console.log(`Premium status: ${premiumStatus}`);
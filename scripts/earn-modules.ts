@@ -0,0 +1,41 @@
+import { ethers } from 'hardhat';
+import { MOVINEarnV2 } from '../typechain-types';
+
+// Contracts holding MOVINEarnV2 logic that does not fit in the main implementation
+export const MOVIN_EARN_MODULES = [
+  'MOVINEarnParametersModule',
+  'MOVINEarnStakingModule',
+  'MOVINEarnActivityModule',
+  'MOVINEarnPremiumModule',
+  'MOVINEarnReferralModule',
+];
+
+/**
+ * Deploys every MOVINEarnV2 module and routes its functions through the proxy fallback.
+ * Functions also exposed by MOVINEarnV2 itself (inherited state getters, roles, ...) are skipped.
+ */
+export async function deployEarnModules(movinEarn: MOVINEarnV2) {
+  const moduleAddresses: Record<string, string> = {};
+  const earnSelectors = new Set<string>();
+  movinEarn.interface.forEachFunction(fragment => earnSelectors.add(fragment.selector));
+
+  for (const moduleName of MOVIN_EARN_MODULES) {
+    const Module = await ethers.getContractFactory(moduleName);
+    const module = await Module.deploy();
+    await module.waitForDeployment();
+
+    const selectors: string[] = [];
+    Module.interface.forEachFunction(fragment => {
+      if (!earnSelectors.has(fragment.selector)) {
+        selectors.push(fragment.selector);
+      }
+    });
+
+    const tx = await movinEarn.setModule(await module.getAddress(), selectors);
+    await tx.wait();
+
+    moduleAddresses[moduleName] = await module.getAddress();
+  }
+
+  return moduleAddresses;
+}
@@ -15,10 +15,13 @@ async function main() {
   // Get contract instance
   const movinEarn = await ethers.getContractAt('MOVINEarnV2', MOVIN_EARN_PROXY_ADDRESS, wallet);
 
-  // Check if the address is the owner
-  const contractOwner = await movinEarn.owner();
-  if (contractOwner.toLowerCase() !== wallet.address.toLowerCase()) {
-    console.error('Error: The wallet is not the contract owner');
+  // Check if the address is an activity oracle
+  const isActivityOracle = await movinEarn.hasRole(
+    await movinEarn.ACTIVITY_ORACLE_ROLE(),
+    wallet.address
+  );
+  if (!isActivityOracle) {
+    console.error('Error: The wallet does not have the activity oracle role');
     return;
   }
 
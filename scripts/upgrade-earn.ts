@@ -1,5 +1,6 @@
 import { ethers, upgrades } from 'hardhat';
 import { MOVIN_EARN_PROXY_ADDRESS, MOVIN_TOKEN_PROXY_ADDRESS } from './contract-addresses';
+import { deployEarnModules } from './earn-modules';
 
 async function checkCurrentData() {
   const movinEarn = await ethers.getContractAt('MOVINEarn', MOVIN_EARN_PROXY_ADDRESS);
@@ -95,15 +96,16 @@ async function migrateAllData(deployer: any, originalData: any) {
   } as any;
 
   // Perform the actual upgrade
-  const upgraded = await upgrades.upgradeProxy(
-    MOVIN_EARN_PROXY_ADDRESS,
-    MOVINEarnV2,
-    upgradeOptions
-  );
+  // initializeV3 runs in the upgrade transaction (EIP-712 attestations and access control roles),
+  // so the upgrade fails as a whole if it reverts
+  const upgraded = await upgrades.upgradeProxy(MOVIN_EARN_PROXY_ADDRESS, MOVINEarnV2, {
+    ...upgradeOptions,
+    call: { fn: 'initializeV3' },
+  });
   await upgraded.waitForDeployment();
   const upgradedAddress = await upgraded.getAddress();
 
-  console.log('✅ MOVINEarn proxy upgraded');
+  console.log('✅ MOVINEarn proxy upgraded, V3 roles granted to the owner');
   console.log('Proxy address:', upgradedAddress);
   console.log(
     'Implementation address:',
@@ -127,13 +129,11 @@ async function migrateAllData(deployer: any, originalData: any) {
     console.log('⚠️ Cannot transfer MovinToken ownership - current owner is not the deployer');
   }
 
-  // Initialize V2 functionality
-  console.log('Initializing V2 functionality...');
-  try {
-    await movinEarnV2.initializeV2();
-    console.log('✅ V2 initialization completed');
-  } catch (error: any) {
-    console.log('V2 initialization failed or already initialized');
+  // Deploy the modules and route their functions through the proxy
+  console.log('Deploying MOVINEarnV2 modules...');
+  const moduleAddresses = await deployEarnModules(movinEarnV2);
+  for (const [moduleName, moduleAddress] of Object.entries(moduleAddresses)) {
+    console.log(`✅ ${moduleName} deployed to: ${moduleAddress}`);
   }
 
   // Initialize migration
@@ -154,9 +154,15 @@ async function migrateAllData(deployer: any, originalData: any) {
     if (baseStepsRate > MAX_REASONABLE_RATE || baseMetsRate === BigInt(0)) {
       console.log('⚠️ Base rates appear to be corrupted, fixing...');
 
-      // Check if token rates need to be fixed (use the simplified 2-parameter version)
-      await movinEarnV2.migrateBaseRates(baseStepsRate, baseMetsRate);
-      console.log('✅ Base rates fixed');
+      // Base rate changes are timelocked, so the fix is queued and executed after the delay
+      const parameters = await ethers.getContractAt(
+        'MOVINEarnParametersModule',
+        await movinEarnV2.getAddress()
+      );
+      await parameters.queueBaseRates(ethers.parseEther('1'), ethers.parseEther('1'));
+      console.log(
+        '✅ Base rates fix queued, run executeParameterChange once PARAMETER_CHANGE_DELAY has passed'
+      );
     } else {
       console.log('✅ Base rates are valid, no fix needed');
     }
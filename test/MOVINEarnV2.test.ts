@@ -1,14 +1,30 @@
 import { expect } from 'chai';
 import { ethers, upgrades } from 'hardhat';
-import { MOVINEarnV2, MovinToken } from '../typechain-types';
+import {
+  MOVINEarnActivityModule,
+  MOVINEarnParametersModule,
+  MOVINEarnPremiumModule,
+  MOVINEarnReferralModule,
+  MOVINEarnStakingModule,
+  MOVINEarnV2,
+  MovinToken,
+} from '../typechain-types';
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
-import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { takeSnapshot, time } from '@nomicfoundation/hardhat-network-helpers';
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
 import { network } from 'hardhat';
 import { USER_ADDRESS } from '../scripts/contract-addresses';
+import { deployEarnModules } from '../scripts/earn-modules';
+import { buildActivityTree, getActivityProof } from '../scripts/activity-merkle';
 
 describe('MOVINEarnV2', function () {
   let movinToken: MovinToken;
   let movinEarn: MOVINEarnV2;
+  let movinEarnParameters: MOVINEarnParametersModule;
+  let movinEarnStaking: MOVINEarnStakingModule;
+  let movinEarnActivity: MOVINEarnActivityModule;
+  let movinEarnPremium: MOVINEarnPremiumModule;
+  let movinEarnReferral: MOVINEarnReferralModule;
   let owner: HardhatEthersSigner;
   let user1: HardhatEthersSigner;
   let user2: HardhatEthersSigner;
@@ -26,6 +42,8 @@ describe('MOVINEarnV2', function () {
   const ONE_DAY = 24 * 60 * 60;
   const THIRTY_DAYS = 30 * ONE_DAY;
   const ONE_YEAR = 365 * ONE_DAY;
+  const MONTHLY_PLAN_ID = 1;
+  const YEARLY_PLAN_ID = 2;
 
   beforeEach(async function () {
     // Get signers
@@ -49,6 +67,14 @@ describe('MOVINEarnV2', function () {
 
     const movinEarnAddress = await movinEarn.getAddress();
 
+    // Route the module functions through the proxy
+    await deployEarnModules(movinEarn);
+    movinEarnParameters = await ethers.getContractAt('MOVINEarnParametersModule', movinEarnAddress);
+    movinEarnStaking = await ethers.getContractAt('MOVINEarnStakingModule', movinEarnAddress);
+    movinEarnActivity = await ethers.getContractAt('MOVINEarnActivityModule', movinEarnAddress);
+    movinEarnPremium = await ethers.getContractAt('MOVINEarnPremiumModule', movinEarnAddress);
+    movinEarnReferral = await ethers.getContractAt('MOVINEarnReferralModule', movinEarnAddress);
+
     // Transfer ownership of the token to the MOVINEarnV2 contract
     await movinToken.transferOwnership(movinEarnAddress);
     // Mint some tokens to users for testing
@@ -88,7 +114,7 @@ describe('MOVINEarnV2', function () {
       const stakeAmount = ethers.parseEther('100');
 
       // Set user1 as premium to allow staking for 24 months
-      await movinEarn.connect(user1).setPremiumStatus(true, ethers.parseEther('1000'));
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
 
       // Test each valid lock period
       const lockPeriods = [1, 3, 6, 12, 24];
@@ -100,16 +126,18 @@ describe('MOVINEarnV2', function () {
         await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
 
         // Stake tokens
-        await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+        await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
         // Verify stake was created
-        const userStake = await movinEarn.connect(user1).getUserStake(i);
+        const userStake = await movinEarnStaking.connect(user1).getUserStake(i);
         expect(userStake.amount).to.equal(stakeAmount);
         expect(userStake.lockDuration).to.equal(lockPeriod * 30 * 24 * 60 * 60); // convert months to seconds
       }
 
       // Verify user stake count
-      expect(await movinEarn.connect(user1).getUserStakeCount()).to.equal(lockPeriods.length);
+      expect(await movinEarnStaking.connect(user1).getUserStakeCount()).to.equal(
+        lockPeriods.length
+      );
     });
 
     it('Should fail when staking with invalid lock period', async function () {
@@ -117,13 +145,13 @@ describe('MOVINEarnV2', function () {
 
       // Try to stake with invalid lock period
       await expect(
-        movinEarn.connect(user1).stakeTokens(stakeAmount, 2)
-      ).to.be.revertedWithCustomError(movinEarn, 'InvalidLockPeriod');
+        movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 2)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'InvalidLockPeriod');
     });
 
     it('Should fail when staking zero amount', async function () {
-      await expect(movinEarn.connect(user1).stakeTokens(0, 1)).to.be.revertedWithCustomError(
-        movinEarn,
+      await expect(movinEarnStaking.connect(user1).stakeTokens(0, 1)).to.be.revertedWithCustomError(
+        movinEarnStaking,
         'ZeroAmountNotAllowed'
       );
     });
@@ -132,23 +160,23 @@ describe('MOVINEarnV2', function () {
       const stakeAmount = ethers.parseEther('100');
 
       // Set user1 as premium and user2 as non-premium
-      await movinEarn.connect(user1).setPremiumStatus(true, ethers.parseEther('1000'));
-      await movinEarn.connect(user2).setPremiumStatus(false, 0);
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
+      await movinEarnPremium.connect(user2).cancelSubscription();
 
       // Approve tokens for both users
       await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
       await movinToken.connect(user2).approve(await movinEarn.getAddress(), stakeAmount);
 
       // Premium user should be able to stake for 24 months
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, 24);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 24);
 
       // Non-premium user should not be able to stake for 24 months
       await expect(
-        movinEarn.connect(user2).stakeTokens(stakeAmount, 24)
-      ).to.be.revertedWithCustomError(movinEarn, 'UnauthorizedAccess');
+        movinEarnStaking.connect(user2).stakeTokens(stakeAmount, 24)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'UnauthorizedAccess');
 
       // Non-premium user should still be able to stake for other periods
-      await movinEarn.connect(user2).stakeTokens(stakeAmount, 12);
+      await movinEarnStaking.connect(user2).stakeTokens(stakeAmount, 12);
     });
 
     it('Should calculate staking rewards correctly', async function () {
@@ -156,7 +184,7 @@ describe('MOVINEarnV2', function () {
       const lockPeriod = 12; // 12 months, which has a multiplier of 12
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time by 12 hours (less than 1 day expiration)
       await time.increase(12 * 60 * 60);
@@ -169,7 +197,7 @@ describe('MOVINEarnV2', function () {
         (stakeAmount * BigInt(apr) * BigInt(durationSeconds)) / (BigInt(100) * BigInt(ONE_YEAR));
 
       // Get calculated reward from contract using getUserStake
-      const stake = await movinEarn.connect(user1).getUserStake(0);
+      const stake = await movinEarnStaking.connect(user1).getUserStake(0);
       const reward = stake.rewards;
 
       // Allow for small rounding difference due to timestamp variations
@@ -184,10 +212,10 @@ describe('MOVINEarnV2', function () {
       const lockPeriod = 12; // 12 months
 
       // Setup referral relationship
-      await movinEarn.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time by 12 hours (less than 1 day expiration)
       await time.increase(12 * 60 * 60);
@@ -197,13 +225,13 @@ describe('MOVINEarnV2', function () {
       const referrerBalanceBefore = await movinToken.balanceOf(user2.address);
 
       // Get expected reward from getUserStake
-      const stake = await movinEarn.connect(user1).getUserStake(0);
+      const stake = await movinEarnStaking.connect(user1).getUserStake(0);
       const reward = stake.rewards;
       // No burn, full reward goes to user
       const expectedUserReward = reward;
 
       // Claim rewards
-      const tx = await movinEarn.connect(user1).claimStakingRewards(0);
+      const tx = await movinEarnStaking.connect(user1).claimStakingRewards(0);
       await tx.wait();
 
       // Verify balance increased for user1
@@ -238,15 +266,15 @@ describe('MOVINEarnV2', function () {
         .approve(await movinEarn.getAddress(), stake1Amount + stake2Amount + stake3Amount);
 
       // Create 3 different stakes
-      await movinEarn.connect(user1).stakeTokens(stake1Amount, 1); // 1 month
-      await movinEarn.connect(user1).stakeTokens(stake2Amount, 3); // 3 months
-      await movinEarn.connect(user1).stakeTokens(stake3Amount, 6); // 6 months
+      await movinEarnStaking.connect(user1).stakeTokens(stake1Amount, 1); // 1 month
+      await movinEarnStaking.connect(user1).stakeTokens(stake2Amount, 3); // 3 months
+      await movinEarnStaking.connect(user1).stakeTokens(stake3Amount, 6); // 6 months
 
       // Advance time by 12 hours (less than 1 day expiration)
       await time.increase(12 * 60 * 60);
 
       // Get all user stakes and sum up rewards
-      const stakes = await movinEarn.connect(user1).getUserStakes(user1.address);
+      const stakes = await movinEarnStaking.connect(user1).getUserStakes(user1.address);
       let totalExpectedReward = BigInt(0);
       for (const stake of stakes) {
         totalExpectedReward += stake.rewards;
@@ -262,14 +290,14 @@ describe('MOVINEarnV2', function () {
       const contractBalanceBefore = await movinToken.balanceOf(movinEarnAddress);
 
       // Make sure rewards are claimed successfully
-      const tx = await movinEarn.connect(user1).claimAllStakingRewards();
+      const tx = await movinEarnStaking.connect(user1).claimAllStakingRewards();
       await tx.wait();
 
       const contractBalanceAfter = await movinToken.balanceOf(movinEarnAddress);
       expect(contractBalanceAfter).to.be.lessThan(contractBalanceBefore);
 
       // Ensure all rewards are now zero
-      const updatedStakes = await movinEarn.connect(user1).getUserStakes(user1.address);
+      const updatedStakes = await movinEarnStaking.connect(user1).getUserStakes(user1.address);
       let allRewardsZero = true;
       for (let i = 0; i < updatedStakes.length; i++) {
         if (updatedStakes[i].rewards > 0) {
@@ -301,7 +329,7 @@ describe('MOVINEarnV2', function () {
       const balanceBeforeStaking = await movinToken.balanceOf(user1.address);
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       const balanceAfterStaking = await movinToken.balanceOf(user1.address);
       expect(balanceAfterStaking).to.equal(balanceBeforeStaking - stakeAmount);
@@ -311,18 +339,27 @@ describe('MOVINEarnV2', function () {
 
       // Get balance before unstaking
       const balanceBefore = await movinToken.balanceOf(user1.address);
-      const stakeCount = await movinEarn.connect(user1).getUserStakeCount();
+      const stakeCount = await movinEarnStaking.connect(user1).getUserStakeCount();
       expect(stakeCount).to.equal(1);
 
+      const { lastClaimed } = await movinEarnStaking.connect(user1).getUserStake(0);
+
       // Unstake
-      await movinEarn.connect(user1).unstake(0);
+      await expect(movinEarnStaking.connect(user1).unstake(0)).to.emit(
+        movinEarnStaking,
+        'StakingRewardsClaimed'
+      );
+      const unstakeTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
 
-      const stakeCountAfterUnstaking = await movinEarn.connect(user1).getUserStakeCount();
+      const stakeCountAfterUnstaking = await movinEarnStaking.connect(user1).getUserStakeCount();
       expect(stakeCountAfterUnstaking).to.equal(0);
 
-      // Calculate expected payout
+      // Calculate expected payout, unclaimed rewards are paid with the principal
       const burnAmount = (stakeAmount * BigInt(UNSTAKE_BURN_FEES_PERCENT)) / BigInt(100);
-      const expectedPayout = stakeAmount - burnAmount;
+      const reward =
+        (stakeAmount * BigInt(lockPeriod) * (BigInt(unstakeTimestamp) - lastClaimed)) /
+        (BigInt(100) * BigInt(ONE_YEAR));
+      const expectedPayout = stakeAmount - burnAmount + reward;
 
       // Verify balance increased by expected amount
       const balanceAfter = await movinToken.balanceOf(user1.address);
@@ -337,12 +374,12 @@ describe('MOVINEarnV2', function () {
       const newLockPeriod = 3; // 3 months for restaking
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, initialLockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, initialLockPeriod);
 
       // Verify initial stake
-      const initialStakeCount = await movinEarn.connect(user1).getUserStakeCount();
+      const initialStakeCount = await movinEarnStaking.connect(user1).getUserStakeCount();
       expect(initialStakeCount).to.equal(1);
-      const initialStake = await movinEarn.connect(user1).getUserStake(0);
+      const initialStake = await movinEarnStaking.connect(user1).getUserStake(0);
       expect(initialStake.amount).to.equal(stakeAmount);
       expect(initialStake.lockDuration).to.equal(initialLockPeriod * 30 * 24 * 60 * 60);
 
@@ -350,31 +387,62 @@ describe('MOVINEarnV2', function () {
       await time.increase(32 * 24 * 60 * 60); // 32 days
 
       // Restake
-      await movinEarn.connect(user1).restake(0, newLockPeriod);
+      await movinEarnStaking.connect(user1).restake(0, newLockPeriod);
 
       // Verify stake count remains the same (one removed, one added)
-      const stakeCountAfterRestaking = await movinEarn.connect(user1).getUserStakeCount();
+      const stakeCountAfterRestaking = await movinEarnStaking.connect(user1).getUserStakeCount();
       expect(stakeCountAfterRestaking).to.equal(1);
 
       // Verify new stake has correct parameters
-      const newStake = await movinEarn.connect(user1).getUserStake(0);
+      const newStake = await movinEarnStaking.connect(user1).getUserStake(0);
       expect(newStake.amount).to.equal(stakeAmount); // Full amount preserved (no burn fee)
       expect(newStake.lockDuration).to.equal(newLockPeriod * 30 * 24 * 60 * 60); // New lock period
     });
 
+    it('Should carry unclaimed rewards over when restaking', async function () {
+      const stakeAmount = ethers.parseEther('1000');
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1);
+      const { startTime } = await movinEarnStaking.connect(user1).getUserStake(0);
+
+      await time.increase(32 * ONE_DAY);
+      await movinEarnStaking.connect(user1).restake(0, 3);
+      const restakeTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
+
+      // 1% APR for the 32 days of the old stake, nothing accrued yet on the new one
+      const carriedReward =
+        (stakeAmount * BigInt(1) * (BigInt(restakeTimestamp) - startTime)) /
+        (BigInt(100) * BigInt(ONE_YEAR));
+      const newStake = await movinEarnStaking.connect(user1).getUserStake(0);
+      expect(newStake.rewards).to.equal(carriedReward);
+      expect(newStake.lastClaimed).to.equal(restakeTimestamp);
+
+      // Claiming pays the carried reward plus what the new stake accrued since
+      const balanceBefore = await movinToken.balanceOf(user1.address);
+      await movinEarnStaking.connect(user1).claimStakingRewards(0);
+      const claimTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
+      const newReward =
+        (stakeAmount * BigInt(3) * BigInt(claimTimestamp - restakeTimestamp)) /
+        (BigInt(100) * BigInt(ONE_YEAR));
+
+      expect((await movinToken.balanceOf(user1.address)) - balanceBefore).to.equal(
+        carriedReward + newReward
+      );
+      expect((await movinEarnStaking.connect(user1).getUserStake(0)).rewards).to.equal(0);
+    });
+
     it('Should reject restaking if lock period still active', async function () {
       const stakeAmount = ethers.parseEther('1000');
       const lockPeriod = 1; // 1 month
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time but not enough to reach the end of lock period
       await time.increase(15 * 24 * 60 * 60); // 15 days
 
       // Attempt to restake should fail
-      await expect(movinEarn.connect(user1).restake(0, 3)).to.be.revertedWithCustomError(
-        movinEarn,
+      await expect(movinEarnStaking.connect(user1).restake(0, 3)).to.be.revertedWithCustomError(
+        movinEarnStaking,
         'LockPeriodActive'
       );
     });
@@ -384,15 +452,15 @@ describe('MOVINEarnV2', function () {
       const lockPeriod = 1; // 1 month
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time beyond the lock period
       await time.increase(32 * 24 * 60 * 60); // 32 days
 
       // Attempt to restake with invalid lock period should fail
       await expect(
-        movinEarn.connect(user1).restake(0, 2) // 2 months is not a valid lock period
-      ).to.be.revertedWithCustomError(movinEarn, 'InvalidLockPeriod');
+        movinEarnStaking.connect(user1).restake(0, 2) // 2 months is not a valid lock period
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'InvalidLockPeriod');
     });
 
     it('Should only allow premium users to restake for 24 months', async function () {
@@ -401,10 +469,10 @@ describe('MOVINEarnV2', function () {
 
       // Create stakes for both users
       await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       await movinToken.connect(user2).approve(await movinEarn.getAddress(), stakeAmount);
-      await movinEarn.connect(user2).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user2).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time beyond the lock period
       await time.increase(32 * 24 * 60 * 60); // 32 days
@@ -414,50 +482,50 @@ describe('MOVINEarnV2', function () {
       await movinToken
         .connect(user1)
         .approve(await movinEarn.getAddress(), ethers.parseEther('1000'));
-      await movinEarn.connect(user1).setPremiumStatus(true, ethers.parseEther('1000'));
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
 
       await movinToken.connect(user2).approve(await movinEarn.getAddress(), ethers.parseEther('0'));
-      await movinEarn.connect(user2).setPremiumStatus(false, 0);
+      await movinEarnPremium.connect(user2).cancelSubscription();
 
       // Premium user should be able to restake for 24 months
-      await movinEarn.connect(user1).restake(0, 24);
+      await movinEarnStaking.connect(user1).restake(0, 24);
 
       // Verify the restake worked
-      const user1Stake = await movinEarn.connect(user1).getUserStake(0);
+      const user1Stake = await movinEarnStaking.connect(user1).getUserStake(0);
       expect(user1Stake.lockDuration).to.equal(24 * 30 * 24 * 60 * 60);
 
       // Non-premium user should not be able to restake for 24 months
-      await expect(movinEarn.connect(user2).restake(0, 24)).to.be.revertedWithCustomError(
-        movinEarn,
+      await expect(movinEarnStaking.connect(user2).restake(0, 24)).to.be.revertedWithCustomError(
+        movinEarnStaking,
         'UnauthorizedAccess'
       );
 
       // Non-premium user should still be able to restake for other periods
-      await movinEarn.connect(user2).restake(0, 12);
+      await movinEarnStaking.connect(user2).restake(0, 12);
 
       // Verify the restake worked
-      const user2Stake = await movinEarn.connect(user2).getUserStake(0);
+      const user2Stake = await movinEarnStaking.connect(user2).getUserStake(0);
       expect(user2Stake.lockDuration).to.equal(12 * 30 * 24 * 60 * 60);
     });
 
-    it('Should calculate rewards for modulo 24 hours when more than 24 hours have passed', async function () {
+    it('Should accrue rewards for the full time when more than 24 hours have passed', async function () {
       const stakeAmount = ethers.parseEther('1000');
       const lockPeriod = 12; // 12 months, which has a multiplier of 12
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time by 30 hours (more than 1 day)
       await time.increase(30 * 60 * 60);
 
-      // Calculate expected reward for 6 hours (30 % 24 = 6)
+      // Calculate expected reward for the full 30 hours
       const apr = 12; // Multiplier for 12 months
-      const effectiveDuration = 6 * 60 * 60; // 6 hours in seconds
+      const effectiveDuration = 30 * 60 * 60; // 30 hours in seconds
       const expectedReward =
         (stakeAmount * BigInt(apr) * BigInt(effectiveDuration)) / (BigInt(100) * BigInt(ONE_YEAR));
 
       // Get calculated reward from contract using getUserStake
-      const stake = await movinEarn.connect(user1).getUserStake(0);
+      const stake = await movinEarnStaking.connect(user1).getUserStake(0);
       const reward = stake.rewards;
 
       // Allow for small rounding difference due to timestamp variations
@@ -468,24 +536,24 @@ describe('MOVINEarnV2', function () {
       expect(reward).to.be.gt(0); // Reward should be greater than 0
     });
 
-    it('Should calculate rewards for modulo 24 hours with multi-day passed periods', async function () {
+    it('Should accrue rewards for the full time with multi-day passed periods', async function () {
       const stakeAmount = ethers.parseEther('1000');
       const lockPeriod = 12; // 12 months, which has a multiplier of 12
 
       // Stake tokens
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, lockPeriod);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, lockPeriod);
 
       // Advance time by 74 hours (more than 3 days)
       await time.increase(74 * 60 * 60);
 
-      // Calculate expected reward for 2 hours (74 % 24 = 2)
+      // Calculate expected reward for the full 74 hours
       const apr = 12; // Multiplier for 12 months
-      const effectiveDuration = 2 * 60 * 60; // 2 hours in seconds
+      const effectiveDuration = 74 * 60 * 60; // 74 hours in seconds
       const expectedReward =
         (stakeAmount * BigInt(apr) * BigInt(effectiveDuration)) / (BigInt(100) * BigInt(ONE_YEAR));
 
       // Get calculated reward from contract using getUserStake
-      const stake = await movinEarn.connect(user1).getUserStake(0);
+      const stake = await movinEarnStaking.connect(user1).getUserStake(0);
       const reward = stake.rewards;
 
       // Allow for small rounding difference due to timestamp variations
@@ -496,20 +564,20 @@ describe('MOVINEarnV2', function () {
       expect(reward).to.be.gt(0); // Reward should be greater than 0
     });
 
-    it('Should allow claiming staking rewards before 1 day expiration', async function () {
+    it('Should allow claiming staking rewards before 1 day', async function () {
       const stakeAmount = ethers.parseEther('1000');
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, 1); // 1 month lock
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1); // 1 month lock
 
       // Advance time less than 1 day (e.g., 12 hours)
       await time.increase(12 * 60 * 60);
 
-      const stake = await movinEarn.connect(user1).getUserStake(0);
+      const stake = await movinEarnStaking.connect(user1).getUserStake(0);
       const reward = stake.rewards;
       expect(reward).to.be.gt(0);
 
       // Claim should succeed
       const balanceBefore = await movinToken.balanceOf(user1.address);
-      await expect(movinEarn.connect(user1).claimStakingRewards(0)).to.not.be.reverted;
+      await expect(movinEarnStaking.connect(user1).claimStakingRewards(0)).to.not.be.reverted;
       const balanceAfter = await movinToken.balanceOf(user1.address);
       const actualReward = balanceAfter - balanceBefore;
 
@@ -519,30 +587,118 @@ describe('MOVINEarnV2', function () {
       expect(Number(ethers.formatEther(rewardDifference))).to.be.lessThan(0.01);
     });
 
-    it('Should prevent claiming staking rewards after 1 day expiration', async function () {
+    it('Should pay more for waiting 47 hours than for waiting 23 hours', async function () {
       const stakeAmount = ethers.parseEther('1000');
-      await movinEarn.connect(user1).stakeTokens(stakeAmount, 1); // 1 month lock
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 12);
+      await movinEarnStaking.connect(user2).stakeTokens(stakeAmount, 12);
 
-      // Advance time more than 1 day (e.g., 1 day + 1 hour)
-      await time.increase(ONE_DAY + 3600);
+      await time.increase(23 * 60 * 60);
+      const balance1Before = await movinToken.balanceOf(user1.address);
+      await movinEarnStaking.connect(user1).claimStakingRewards(0);
+      const reward23Hours = (await movinToken.balanceOf(user1.address)) - balance1Before;
 
-      // Calculate reward now returns modulo 24 hours (1 hour in this case)
-      const stake = await movinEarn.connect(user1).getUserStake(0);
-      const reward = stake.rewards;
-      expect(reward).to.be.gt(0); // Reward should be > 0 (for the 1 hour)
+      await time.increase(24 * 60 * 60);
+      const balance2Before = await movinToken.balanceOf(user2.address);
+      await movinEarnStaking.connect(user2).claimStakingRewards(0);
+      const reward47Hours = (await movinToken.balanceOf(user2.address)) - balance2Before;
 
-      // Claim should succeed now since we modified the function
-      await expect(
-        movinEarn.connect(user1).claimStakingRewards(0)
-      ).to.not.be.revertedWithCustomError(movinEarn, 'NoRewardsAvailable');
+      expect(reward47Hours).to.be.gt(reward23Hours * BigInt(2));
+    });
+
+    it('Should cap accrued rewards at the timelocked claim window', async function () {
+      const stakeAmount = ethers.parseEther('1000');
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 12);
+
+      await movinEarnParameters.queueStakingClaimWindow(7 * ONE_DAY);
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+      await time.increase(2 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(change.id);
+      expect(await movinEarn.stakingClaimWindow()).to.equal(7 * ONE_DAY);
+
+      // 10 days without claiming only credits the 7 day window
+      await time.increase(8 * ONE_DAY);
+      const expectedReward =
+        (stakeAmount * BigInt(12) * BigInt(7 * ONE_DAY)) / (BigInt(100) * BigInt(ONE_YEAR));
+      expect((await movinEarnStaking.connect(user1).getUserStake(0)).rewards).to.equal(
+        expectedReward
+      );
+
+      const balanceBefore = await movinToken.balanceOf(user1.address);
+      await movinEarnStaking.connect(user1).claimAllStakingRewards();
+      expect((await movinToken.balanceOf(user1.address)) - balanceBefore).to.equal(expectedReward);
+    });
+
+    it('Should apply the claim window to checkpointed rewards', async function () {
+      const stakeAmount = ethers.parseEther('1000');
+      await movinEarnParameters.queueStakingClaimWindow(7 * ONE_DAY);
+      await time.increase(2 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(0);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 12);
+      const stakedAt = await time.latest();
+
+      // Checkpoints before the end of the window do not restart it
+      await time.increaseTo(stakedAt + 5 * ONE_DAY);
+      await movinEarnStaking.connect(user1).setAutoCompound(0, false);
+      await time.increaseTo(stakedAt + 6 * ONE_DAY);
+      await movinEarnStaking.connect(user1).splitStake(0, stakeAmount / 2n);
+      const splitAt = await time.latest();
+      await time.increaseTo(stakedAt + 20 * ONE_DAY);
+
+      // Only the 7 days after the stake are credited, the split stake earns the rest of them
+      const [stake, splitStake] = await movinEarnStaking.getUserStakes(user1.address);
+      const windowReward = (stakeAmount * 12n * BigInt(7 * ONE_DAY)) / (100n * BigInt(ONE_YEAR));
+      const splitReward =
+        ((stakeAmount / 2n) * 12n * BigInt(stakedAt + 7 * ONE_DAY - splitAt)) /
+        (100n * BigInt(ONE_YEAR));
+      expect(stake.rewards + splitStake.rewards).to.be.closeTo(windowReward, 10n);
+      expect(splitStake.rewards).to.equal(splitReward);
+      expect(splitStake.lastClaimed).to.equal(stakedAt);
+    });
+
+    it('Should keep the old multiplier for unclaimed time before a change', async function () {
+      const stakeAmount = ethers.parseEther('1000');
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 12);
+      const stakedAt = await time.latest();
+
+      await movinEarnParameters.queueLockPeriodMultiplier(12, 6);
+      await time.increaseTo(stakedAt + 10 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(0);
+      const changedAt = await time.latest();
+      await time.increaseTo(stakedAt + 30 * ONE_DAY);
+
+      const expectedReward =
+        (stakeAmount *
+          (12n * BigInt(changedAt - stakedAt) + 6n * BigInt(stakedAt + 30 * ONE_DAY - changedAt))) /
+        (100n * BigInt(ONE_YEAR));
+      expect((await movinEarnStaking.connect(user1).getUserStake(0)).rewards).to.equal(
+        expectedReward
+      );
+
+      // A second change keeps both earlier rates
+      await movinEarnParameters.queueLockPeriodMultiplier(12, 24);
+      await time.increase(2 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(1);
+      const secondChangeAt = await time.latest();
+      await time.increase(ONE_DAY);
+      await movinEarnStaking.connect(user1).claimStakingRewardsById(0);
+
+      const claimedAt = await time.latest();
+      const [event] = await movinEarn.queryFilter(movinEarn.filters.StakingRewardsClaimed());
+      expect(event.args.reward).to.equal(
+        (stakeAmount *
+          (12n * BigInt(changedAt - stakedAt) +
+            6n * BigInt(secondChangeAt - changedAt) +
+            24n * BigInt(claimedAt - secondChangeAt))) /
+          (100n * BigInt(ONE_YEAR))
+      );
     });
 
-    it('claimAllStakingRewards should claim only non-expired rewards', async function () {
+    it('claimAllStakingRewards should claim the accrued rewards of every stake', async function () {
       const stakeAmount1 = ethers.parseEther('1000');
       const stakeAmount2 = ethers.parseEther('1500');
 
       // Stake 1
-      await movinEarn.connect(user1).stakeTokens(stakeAmount1, 3); // 3 months
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount1, 3); // 3 months
       const stake1Timestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
 
       // Wait 12 hours
@@ -552,23 +708,23 @@ describe('MOVINEarnV2', function () {
       await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount2);
 
       // Stake 2
-      await movinEarn.connect(user1).stakeTokens(stakeAmount2, 6); // 6 months
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount2, 6); // 6 months
 
       // Wait another 13 hours (total time elapsed: 25 hours for stake 1, 13 hours for stake 2)
       await time.increase(13 * 60 * 60);
 
       // Get rewards from stakes
-      const stakes = await movinEarn.connect(user1).getUserStakes(user1.address);
+      const stakes = await movinEarnStaking.connect(user1).getUserStakes(user1.address);
       const reward1 = stakes[0].rewards;
       const reward2 = stakes[1].rewards;
 
-      expect(reward1).to.be.gt(0); // Stake 1 should have rewards for 1 hour
-      expect(reward2).to.be.gt(0); // Stake 2 should not be expired
+      expect(reward1).to.be.gt(0); // Stake 1 should have rewards for 25 hours
+      expect(reward2).to.be.gt(0); // Stake 2 should have rewards for 13 hours
       const totalExpectedReward = reward1 + reward2;
 
       // Claim all rewards
       const balanceBefore = await movinToken.balanceOf(user1.address);
-      await expect(movinEarn.connect(user1).claimAllStakingRewards()).to.not.be.reverted;
+      await expect(movinEarnStaking.connect(user1).claimAllStakingRewards()).to.not.be.reverted;
       const balanceAfter = await movinToken.balanceOf(user1.address);
       const actualTotalReward = balanceAfter - balanceBefore;
 
@@ -580,7 +736,7 @@ describe('MOVINEarnV2', function () {
       expect(Number(ethers.formatEther(rewardDifference))).to.be.lessThan(0.01);
 
       // Verify lastClaimed was updated for BOTH stakes
-      const updatedStakes = await movinEarn.connect(user1).getUserStakes(user1.address);
+      const updatedStakes = await movinEarnStaking.connect(user1).getUserStakes(user1.address);
       const claimTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
 
       expect(Number(updatedStakes[0].lastClaimed)).to.be.closeTo(claimTimestamp, 5);
@@ -591,31 +747,435 @@ describe('MOVINEarnV2', function () {
       const stakeAmount1 = ONE_THOUSAND_TOKENS;
       const stakeAmount2 = ONE_THOUSAND_TOKENS;
 
-      await movinEarn.connect(user1).stakeTokens(stakeAmount1, 3); // 3 months
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount1, 3); // 3 months
       await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount2);
-      await movinEarn.connect(user1).stakeTokens(stakeAmount2, 6); // 6 months
-
-      // Advance time by 24 hours and 1 second (very small modulo)
-      await time.increase(ONE_DAY + 1);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount2, 6); // 6 months
 
-      // Get rewards from stakes
-      const stakes = await movinEarn.connect(user1).getUserStakes(user1.address);
-      const reward1 = stakes[0].rewards;
-      const reward2 = stakes[1].rewards;
+      // Advance time by a few seconds only
+      await time.increase(10);
 
       // Since we claim with a minimum threshold of 0.001 ether
-      // and 1 second of rewards is very small, claim should still revert
-      await expect(movinEarn.connect(user1).claimAllStakingRewards()).to.be.revertedWithCustomError(
-        movinEarn,
-        'NoRewardsAvailable'
+      // and a few seconds of rewards is very small, claim should revert
+      await expect(
+        movinEarnStaking.connect(user1).claimAllStakingRewards()
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'NoRewardsAvailable');
+    });
+
+    it('Should keep stake IDs stable when other stakes are unstaked or restaked', async function () {
+      const stakeAmount = ethers.parseEther('100');
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1); // ID 0
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount * BigInt(2), 1); // ID 1
+      await expect(movinEarnStaking.connect(user1).stakeTokens(stakeAmount * BigInt(3), 3))
+        .to.emit(movinEarnStaking, 'Staked')
+        .withArgs(user1.address, stakeAmount * BigInt(3), 3 * THIRTY_DAYS, 2);
+
+      await time.increase(32 * ONE_DAY);
+
+      // Unstaked reports the amount and ID of the stake that was actually closed
+      await expect(movinEarnStaking.connect(user1).unstakeById(0))
+        .to.emit(movinEarnStaking, 'Unstaked')
+        .withArgs(user1.address, stakeAmount, 0);
+
+      await expect(movinEarnStaking.connect(user1).restakeById(1, 1))
+        .to.emit(movinEarnStaking, 'Restaked')
+        .withArgs(user1.address, stakeAmount * BigInt(2), THIRTY_DAYS, 3, 1);
+
+      // The remaining stakes keep their IDs
+      const stakes = await movinEarnStaking.getUserStakes(user1.address);
+      expect(stakes.map(stake => stake.id)).to.deep.equal([2n, 3n]);
+      expect((await movinEarnStaking.getUserStakeById(user1.address, 2)).amount).to.equal(
+        stakeAmount * BigInt(3)
+      );
+
+      await expect(movinEarnStaking.getUserStakeById(user1.address, 0))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeId')
+        .withArgs(0);
+      await expect(movinEarnStaking.connect(user1).claimStakingRewardsById(1))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeId')
+        .withArgs(1);
+    });
+
+    it('Should map the index-based functions to the open stakes in index order', async function () {
+      const stakeAmount = ethers.parseEther('100');
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1); // ID 0
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount * BigInt(2), 1); // ID 1
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount * BigInt(3), 1); // ID 2
+
+      await time.increase(32 * ONE_DAY);
+      await movinEarnStaking.connect(user1).unstake(0);
+
+      // The last open stake takes the removed index: index 0 is now the stake with ID 2
+      expect(await movinEarnStaking.connect(user1).getUserStakeCount()).to.equal(2);
+      expect(await movinEarnStaking.getStakeId(user1.address, 0)).to.equal(2);
+      expect((await movinEarnStaking.connect(user1).getUserStake(1)).id).to.equal(1);
+      expect(await movinEarnStaking.calculateStakingReward(user1.address, 1)).to.equal(
+        await movinEarnStaking.calculateStakingRewardById(user1.address, 1)
+      );
+
+      await expect(movinEarnStaking.connect(user1).claimStakingRewards(1))
+        .to.emit(movinEarnStaking, 'StakingRewardsClaimed')
+        .withArgs(user1.address, 1, anyValue);
+      await expect(movinEarnStaking.connect(user1).unstake(1))
+        .to.emit(movinEarnStaking, 'Unstaked')
+        .withArgs(user1.address, stakeAmount * BigInt(2), 1);
+
+      await expect(movinEarnStaking.connect(user1).getUserStake(1))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeIndex')
+        .withArgs(1, 1);
+    });
+
+    it('Should report the open stake count for an invalid index without open stakes', async function () {
+      // Never staked
+      await expect(movinEarnStaking.getStakeId(user2.address, 0))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeIndex')
+        .withArgs(0, 0);
+
+      await movinEarnStaking.connect(user1).stakeTokens(ethers.parseEther('100'), 1);
+      await time.increase(32 * ONE_DAY);
+      await movinEarnStaking.connect(user1).unstake(0);
+
+      // Every stake closed
+      await expect(movinEarnStaking.connect(user1).unstake(0))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeIndex')
+        .withArgs(0, 0);
+      await expect(movinEarnStaking.connect(user1).getUserStake(0))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeIndex')
+        .withArgs(0, 0);
+    });
+
+    it('Should page through the stakes of any user and through all stakers', async function () {
+      const stakeAmount = ethers.parseEther('100');
+      for (let i = 1; i <= 4; i++) {
+        await movinEarnStaking.connect(user1).stakeTokens(stakeAmount * BigInt(i), 1); // IDs 0-3
+      }
+      await movinEarnStaking.connect(user2).stakeTokens(stakeAmount, 3);
+
+      await time.increase(32 * ONE_DAY);
+      await movinEarnStaking.connect(user1).unstakeById(1);
+      await movinEarnStaking.connect(user1).restakeById(0, 1); // ID 4
+
+      // Pages follow the open stakes in index order, like the index-based functions
+      expect(await movinEarnStaking.getUserStakeCountOf(user1.address)).to.equal(3);
+      const firstPage = await movinEarnStaking.getUserStakesPage(user1.address, 0, 2);
+      const secondPage = await movinEarnStaking.getUserStakesPage(user1.address, 2, 2);
+      expect(firstPage.map(stake => stake.id)).to.deep.equal([2n, 3n]);
+      expect(secondPage.map(stake => stake.id)).to.deep.equal([4n]);
+      expect(secondPage[0].amount).to.equal(stakeAmount);
+      expect(await movinEarnStaking.getUserStakesPage(user1.address, 3, 2)).to.be.empty;
+
+      // Restaking does not list a staker twice
+      expect(await movinEarnStaking.getStakerCount()).to.equal(2);
+      const [users, stakeCounts, totalStaked] = await movinEarnStaking.getStakersPage(0, 10);
+      expect(users).to.deep.equal([user1.address, user2.address]);
+      expect(stakeCounts).to.deep.equal([3n, 1n]);
+      expect(totalStaked).to.deep.equal([stakeAmount * 8n, stakeAmount]);
+      expect((await movinEarnStaking.getStakersPage(1, 1))[0]).to.deep.equal([user2.address]);
+
+      // Partial unstakes and splits keep the running totals up to date
+      await movinEarnStaking.connect(user1).partialUnstake(3, stakeAmount);
+      await movinEarnStaking.connect(user1).splitStake(2, stakeAmount); // ID 5
+      const [, newStakeCounts, newTotalStaked] = await movinEarnStaking.getStakersPage(0, 1);
+      expect(newStakeCounts).to.deep.equal([4n]);
+      expect(newTotalStaked).to.deep.equal([stakeAmount * 7n]);
+
+      // Backfilling skips addresses without stakes and stakers already listed
+      await movinEarnStaking.connect(owner).indexStakers([user1.address, owner.address]);
+      expect(await movinEarnStaking.getStakerCount()).to.equal(2);
+      await expect(
+        movinEarnStaking.connect(user1).indexStakers([user1.address])
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
+    });
+  });
+
+  describe('Partial unstake, split and merge', function () {
+    const stakeAmount = ethers.parseEther('1000');
+
+    beforeEach(async function () {
+      await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1); // ID 0, 30 day lock
+    });
+
+    it('Should withdraw part of a matured stake and keep its accrued rewards', async function () {
+      await expect(
+        movinEarnStaking.connect(user1).partialUnstake(0, ethers.parseEther('400'))
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'LockPeriodActive');
+
+      await time.increase(32 * ONE_DAY);
+      const balanceBefore = await movinToken.balanceOf(user1.address);
+
+      await expect(movinEarnStaking.connect(user1).partialUnstake(0, ethers.parseEther('400')))
+        .to.emit(movinEarnStaking, 'PartiallyUnstaked')
+        .withArgs(user1.address, 0, ethers.parseEther('400'), ethers.parseEther('600'));
+      const { startTime } = await movinEarnStaking.getUserStakeById(user1.address, 0);
+      const unstakeTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
+
+      // 1% burn fee on the withdrawn amount only
+      expect((await movinToken.balanceOf(user1.address)) - balanceBefore).to.equal(
+        ethers.parseEther('396')
+      );
+
+      // Rewards accrued on the full amount stay on the stake, accrual continues on the rest
+      const stake = await movinEarnStaking.getUserStakeById(user1.address, 0);
+      expect(stake.amount).to.equal(ethers.parseEther('600'));
+      expect(stake.lastClaimed).to.equal(startTime);
+      expect(stake.rewards).to.equal(
+        (stakeAmount * (BigInt(unstakeTimestamp) - startTime)) / BigInt(100 * ONE_YEAR)
+      );
+
+      await expect(movinEarnStaking.connect(user1).partialUnstake(0, ethers.parseEther('601')))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InsufficientBalance')
+        .withArgs(ethers.parseEther('600'), ethers.parseEther('601'));
+
+      // Withdrawing the whole remaining amount unstakes it
+      await expect(movinEarnStaking.connect(user1).partialUnstake(0, ethers.parseEther('600')))
+        .to.emit(movinEarnStaking, 'Unstaked')
+        .withArgs(user1.address, ethers.parseEther('600'), 0);
+      expect(await movinEarnStaking.connect(user1).getUserStakeCount()).to.equal(0);
+    });
+
+    it('Should split a stake into two with the same lock', async function () {
+      await time.increase(10 * ONE_DAY);
+      const rewardsBefore = await movinEarnStaking.calculateStakingRewardById(user1.address, 0);
+
+      await expect(movinEarnStaking.connect(user1).splitStake(0, ethers.parseEther('300')))
+        .to.emit(movinEarnStaking, 'StakeSplit')
+        .withArgs(user1.address, 0, 1, ethers.parseEther('300'));
+
+      const [original, split] = await movinEarnStaking.getUserStakes(user1.address);
+      expect(original.amount).to.equal(ethers.parseEther('700'));
+      expect(split.amount).to.equal(ethers.parseEther('300'));
+      expect(split.id).to.equal(1);
+      expect(split.startTime).to.equal(original.startTime);
+      expect(split.lockDuration).to.equal(original.lockDuration);
+      expect(split.rewards).to.equal(0);
+      expect(original.rewards).to.be.closeTo(rewardsBefore, ethers.parseEther('0.001'));
+
+      // The split stake is still locked until the original unlock time
+      await expect(movinEarnStaking.connect(user1).unstakeById(1)).to.be.revertedWithCustomError(
+        movinEarnStaking,
+        'LockPeriodActive'
+      );
+      await expect(movinEarnStaking.connect(user1).splitStake(0, ethers.parseEther('700')))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InsufficientBalance')
+        .withArgs(ethers.parseEther('700'), ethers.parseEther('700'));
+    });
+
+    it('Should merge matured stakes into one new lock through restake', async function () {
+      await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
+      await movinEarnStaking.connect(user1).stakeTokens(ethers.parseEther('500'), 1); // ID 1
+      await movinEarnStaking.connect(user1).stakeTokens(ethers.parseEther('500'), 3); // ID 2
+
+      await time.increase(32 * ONE_DAY);
+
+      await expect(
+        movinEarnStaking.connect(user1).restakeMerged([0, 2], 6)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'LockPeriodActive');
+      await expect(movinEarnStaking.connect(user1).restakeMerged([0, 0], 6))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeId')
+        .withArgs(0);
+
+      await expect(movinEarnStaking.connect(user1).restakeMerged([0, 1], 6))
+        .to.emit(movinEarnStaking, 'StakesMerged')
+        .withArgs(user1.address, [0, 1], 3, ethers.parseEther('1500'), 6 * THIRTY_DAYS);
+      const mergeTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
+
+      // One stake left per lock, the unclaimed rewards moved to the merged stake
+      const stakes = await movinEarnStaking.getUserStakes(user1.address);
+      expect(stakes.map(stake => stake.id)).to.deep.equal([2n, 3n]);
+      expect(stakes[1].amount).to.equal(ethers.parseEther('1500'));
+      expect(stakes[1].startTime).to.equal(mergeTimestamp);
+      expect(stakes[1].rewards).to.be.gt(0);
+
+      const balanceBefore = await movinToken.balanceOf(user1.address);
+      const rewards = await movinEarnStaking.calculateStakingRewardById(user1.address, 3);
+      await movinEarnStaking.connect(user1).claimStakingRewardsById(3);
+      expect((await movinToken.balanceOf(user1.address)) - balanceBefore).to.be.closeTo(
+        rewards,
+        ethers.parseEther('0.001')
+      );
+    });
+  });
+
+  describe('Auto-compounding stakes', function () {
+    const stakeAmount = ethers.parseEther('1000');
+    const reward = (amount: bigint, apr: number, seconds: number) =>
+      (amount * BigInt(apr) * BigInt(seconds)) / BigInt(100 * ONE_YEAR);
+
+    beforeEach(async function () {
+      await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 12); // ID 0
+    });
+
+    it('Should compound rewards into the principal when a keeper pokes the stake', async function () {
+      await expect(movinEarnStaking.connect(user2).poke(user1.address, 0))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'AutoCompoundNotEnabled')
+        .withArgs(0);
+
+      await expect(movinEarnStaking.connect(user1).setAutoCompound(0, true))
+        .to.emit(movinEarnStaking, 'AutoCompoundUpdated')
+        .withArgs(user1.address, 0, true);
+      const { startTime, lastClaimed } = await movinEarnStaking.getUserStakeById(user1.address, 0);
+
+      // Rewards accrued before opting in are compounded as well
+      await time.setNextBlockTimestamp(Number(lastClaimed) + 10 * ONE_DAY);
+      const firstReward =
+        reward(stakeAmount, 12, Number(lastClaimed - startTime)) +
+        reward(stakeAmount, 12, 10 * ONE_DAY);
+      await expect(movinEarnStaking.connect(user2).poke(user1.address, 0))
+        .to.emit(movinEarnStaking, 'StakeCompounded')
+        .withArgs(user1.address, 0, firstReward, stakeAmount + firstReward);
+
+      let stake = await movinEarnStaking.getUserStakeById(user1.address, 0);
+      expect(stake.amount).to.equal(stakeAmount + firstReward);
+      expect(stake.compounded).to.equal(firstReward);
+      expect(stake.autoCompound).to.equal(true);
+      expect(stake.rewards).to.equal(0);
+
+      // The next period accrues on the compounded principal
+      await time.setNextBlockTimestamp(Number(lastClaimed) + 20 * ONE_DAY);
+      await movinEarnStaking.connect(user2).poke(user1.address, 0);
+      const secondReward = reward(stakeAmount + firstReward, 12, 10 * ONE_DAY);
+
+      stake = await movinEarnStaking.getUserStakeById(user1.address, 0);
+      expect(stake.amount).to.equal(stakeAmount + firstReward + secondReward);
+      expect(stake.compounded).to.equal(firstReward + secondReward);
+    });
+
+    it('Should compound when the owner touches the stake and stop once opted out', async function () {
+      await movinEarnStaking.connect(user1).setAutoCompound(0, true);
+      await time.increase(10 * ONE_DAY);
+
+      // Claiming compounds instead of paying out, so there is nothing left to claim
+      await expect(
+        movinEarnStaking.connect(user1).claimStakingRewardsById(0)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'NoRewardsAvailable');
+      await expect(movinEarnStaking.connect(user1).splitStake(0, ethers.parseEther('500'))).to.emit(
+        movinEarnStaking,
+        'StakeCompounded'
+      );
+
+      // The split stake takes its share of the compounded principal and the auto-compound setting
+      const [original, split] = await movinEarnStaking.getUserStakes(user1.address);
+      expect(split.autoCompound).to.equal(true);
+      expect(original.compounded + split.compounded).to.be.closeTo(
+        original.amount + split.amount - stakeAmount,
+        1
+      );
+
+      // Opting out compounds what accrued so far, later rewards are claimable again
+      await time.increase(10 * ONE_DAY);
+      await expect(movinEarnStaking.connect(user1).setAutoCompound(0, false)).to.emit(
+        movinEarnStaking,
+        'StakeCompounded'
+      );
+      await time.increase(10 * ONE_DAY);
+      await expect(movinEarnStaking.connect(user1).claimStakingRewardsById(0)).to.emit(
+        movinEarnStaking,
+        'StakingRewardsClaimed'
+      );
+      expect((await movinEarnStaking.getUserStakeById(user1.address, 0)).autoCompound).to.equal(
+        false
       );
     });
   });
 
+  describe('Early unstake', function () {
+    const stakeAmount = ethers.parseEther('1000');
+    let startTime: number;
+
+    beforeEach(async function () {
+      await movinToken.connect(user1).approve(await movinEarn.getAddress(), stakeAmount);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1); // 30 day lock
+      startTime = (await ethers.provider.getBlock('latest'))?.timestamp ?? 0;
+    });
+
+    it('Should charge a penalty that decreases linearly over the remaining lock time', async function () {
+      const [, penaltyAtStart] = await movinEarnStaking.previewEarlyUnstake(user1.address, 0);
+
+      await time.increaseTo(startTime + 15 * ONE_DAY);
+      const [, penaltyHalfway] = await movinEarnStaking.previewEarlyUnstake(user1.address, 0);
+
+      await time.increaseTo(startTime + 27 * ONE_DAY);
+      const [payout, penaltyNearEnd, forfeitedRewards] = await movinEarnStaking.previewEarlyUnstake(
+        user1.address,
+        0
+      );
+
+      const burnFee = (stakeAmount * BigInt(UNSTAKE_BURN_FEES_PERCENT)) / BigInt(100);
+      expect(penaltyAtStart).to.be.closeTo(ethers.parseEther('200'), ethers.parseEther('0.01'));
+      expect(penaltyHalfway).to.be.closeTo(ethers.parseEther('100'), ethers.parseEther('0.01'));
+      expect(penaltyNearEnd).to.be.closeTo(ethers.parseEther('20'), ethers.parseEther('0.01'));
+      expect(payout).to.equal(stakeAmount - burnFee - penaltyNearEnd);
+      expect(forfeitedRewards).to.equal(
+        await movinEarnStaking.calculateStakingRewardById(user1.address, 0)
+      );
+    });
+
+    it('Should split the penalty between burning and the reward pool and forfeit rewards', async function () {
+      const movinEarnAddress = await movinEarn.getAddress();
+      const unstakeTime = startTime + 15 * ONE_DAY;
+      const balanceBefore = await movinToken.balanceOf(user1.address);
+      const poolBefore = await movinToken.balanceOf(movinEarnAddress);
+      const supplyBefore = await movinToken.totalSupply();
+
+      await time.setNextBlockTimestamp(unstakeTime);
+      const tx = movinEarnStaking.connect(user1).earlyUnstake(0);
+
+      // Half of the lock remains: 10% penalty, half of it burned (default ratio) with the 1% fee
+      const penalty = ethers.parseEther('100');
+      const burned = ethers.parseEther('10') + penalty / BigInt(2);
+      const forfeitedRewards = (stakeAmount * BigInt(15 * ONE_DAY)) / BigInt(100 * ONE_YEAR);
+      await expect(tx)
+        .to.emit(movinEarnStaking, 'EarlyUnstaked')
+        .withArgs(
+          user1.address,
+          0,
+          stakeAmount,
+          penalty,
+          burned,
+          penalty / BigInt(2),
+          forfeitedRewards
+        );
+
+      const payout = stakeAmount - ethers.parseEther('10') - penalty;
+      expect((await movinToken.balanceOf(user1.address)) - balanceBefore).to.equal(payout);
+      expect(poolBefore - (await movinToken.balanceOf(movinEarnAddress))).to.equal(payout + burned);
+      expect(supplyBefore - (await movinToken.totalSupply())).to.equal(burned);
+      expect(await movinEarnStaking.connect(user1).getUserStakeCount()).to.equal(0);
+    });
+
+    it('Should use the timelocked burn ratio', async function () {
+      await expect(movinEarnParameters.queueEarlyUnstakeBurnRatio(10_001))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidBasisPoints')
+        .withArgs(10_001);
+
+      await movinEarnParameters.queueEarlyUnstakeBurnRatio(10_000);
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+      await time.increase(2 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(change.id);
+      expect(await movinEarn.earlyUnstakeBurnBps()).to.equal(10_000);
+
+      await expect(movinEarnStaking.connect(user1).earlyUnstake(0))
+        .to.emit(movinEarnStaking, 'EarlyUnstaked')
+        .withArgs(user1.address, 0, stakeAmount, anyValue, anyValue, 0, anyValue);
+    });
+
+    it('Should reject early unstake once the lock period has ended', async function () {
+      await time.increaseTo(startTime + THIRTY_DAYS);
+
+      await expect(movinEarnStaking.connect(user1).earlyUnstake(0))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'LockPeriodEnded')
+        .withArgs(startTime + THIRTY_DAYS);
+      await expect(movinEarnStaking.connect(user1).earlyUnstake(1))
+        .to.be.revertedWithCustomError(movinEarnStaking, 'InvalidStakeId')
+        .withArgs(1);
+    });
+  });
+
   describe('Activity recording and rewards', function () {
     beforeEach(async function () {
       // Set user1 as premium
-      await movinEarn.connect(user1).setPremiumStatus(true, ethers.parseEther('1000'));
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
 
       // Set transactionSync to true for both users
       await movinEarn.connect(owner).setTransactionSync(user1.address, true);
@@ -627,16 +1187,15 @@ describe('MOVINEarnV2', function () {
       await movinEarn.connect(owner).setTransactionSync(user1.address, false);
 
       // Try to record activity
-      await expect(movinEarn.recordActivity(user1.address, 1, 0)).to.be.revertedWithCustomError(
-        movinEarn,
-        'UnauthorizedAccess'
-      );
+      await expect(
+        movinEarnActivity.recordActivity(user1.address, 1, 0)
+      ).to.be.revertedWithCustomError(movinEarn, 'UnauthorizedAccess');
 
       // Set transactionSync back to true
       await movinEarn.connect(owner).setTransactionSync(user1.address, true);
 
       // Now activity recording should work
-      await movinEarn.recordActivity(user1.address, 1, 0);
+      await movinEarnActivity.recordActivity(user1.address, 1, 0);
 
       // Verify activity was recorded
       const activity = await movinEarn.getTodayUserActivity(user1.address);
@@ -649,31 +1208,31 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user1.address);
 
       // Record 1 step for premium user (should be 0.001 MVN reward)
-      await movinEarn.recordActivity(user1.address, 1, 0);
+      await movinEarnActivity.recordActivity(user1.address, 1, 0);
       let balanceAfter = await movinToken.balanceOf(user1.address);
       expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('0.001'));
       await time.increaseTo((await time.latest()) + 60 * 4);
 
       // Record 999 more steps (total 1000, should now get 1 MVN)
-      await movinEarn.recordActivity(user1.address, 999, 0);
+      await movinEarnActivity.recordActivity(user1.address, 999, 0);
       let balanceAfter1000 = await movinToken.balanceOf(user1.address);
       expect(balanceAfter1000 - initialBalance).to.equal(ethers.parseEther('1'));
       await time.increaseTo((await time.latest()) + 60 * 4);
 
       // Record 1000 more steps (total 2000, should now get 2 MVN)
-      await movinEarn.recordActivity(user1.address, 1000, 0);
+      await movinEarnActivity.recordActivity(user1.address, 1000, 0);
       let balanceAfter2000 = await movinToken.balanceOf(user1.address);
       expect(balanceAfter2000 - initialBalance).to.equal(ethers.parseEther('2'));
       await time.increaseTo((await time.latest()) + 60 * 2);
 
       // Record 500 more steps (total 2500, should be 2.5 MVN)
-      await movinEarn.recordActivity(user1.address, 500, 0);
+      await movinEarnActivity.recordActivity(user1.address, 500, 0);
       let balanceAfter2500 = await movinToken.balanceOf(user1.address);
       expect(balanceAfter2500 - initialBalance).to.equal(ethers.parseEther('2.5'));
       await time.increaseTo((await time.latest()) + 60 * 2);
 
       // Record 500 more steps (total 3000, should now get 3 MVN)
-      await movinEarn.recordActivity(user1.address, 500, 0);
+      await movinEarnActivity.recordActivity(user1.address, 500, 0);
       let balanceAfter3000 = await movinToken.balanceOf(user1.address);
       expect(balanceAfter3000 - initialBalance).to.equal(ethers.parseEther('3'));
       await time.increaseTo((await time.latest()) + 60 * 2);
@@ -684,7 +1243,7 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user1.address);
 
       // Record exactly 1 MET for premium user
-      await movinEarn.recordActivity(user1.address, 0, 1);
+      await movinEarnActivity.recordActivity(user1.address, 0, 1);
 
       // Get balance after activity
       const balanceAfter = await movinToken.balanceOf(user1.address);
@@ -704,10 +1263,10 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user2.address);
 
       // Ensure user2 is not premium
-      await movinEarn.connect(user2).setPremiumStatus(false, 0);
+      await movinEarnPremium.connect(user2).cancelSubscription();
 
       // Record 1000 steps for non-premium user (should get 1 MVN)
-      await movinEarn.recordActivity(user2.address, 1000, 0);
+      await movinEarnActivity.recordActivity(user2.address, 1000, 0);
       const balanceAfter = await movinToken.balanceOf(user2.address);
       expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('1'));
     });
@@ -717,10 +1276,10 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user2.address);
 
       // Ensure user2 is not premium
-      await movinEarn.connect(user2).setPremiumStatus(false, 0);
+      await movinEarnPremium.connect(user2).cancelSubscription();
 
       // Record exactly 1 MET for non-premium user
-      await movinEarn.recordActivity(user2.address, 0, 1);
+      await movinEarnActivity.recordActivity(user2.address, 0, 1);
 
       // Get balance after activity
       const balanceAfter = await movinToken.balanceOf(user2.address);
@@ -740,7 +1299,7 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user1.address);
 
       // Record 1000 steps and 1 MET
-      await movinEarn.recordActivity(user1.address, 1000, 1);
+      await movinEarnActivity.recordActivity(user1.address, 1000, 1);
       const balanceAfter = await movinToken.balanceOf(user1.address);
       // Expected: 1 MVN for 1000 steps + 0.2 MVN for 1 MET = 1.2 MVN total
       expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('1.2'));
@@ -751,33 +1310,33 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user1.address);
 
       // Record 30,000 steps (should get 30 MVN)
-      await movinEarn.recordActivity(user1.address, 30000, 0);
+      await movinEarnActivity.recordActivity(user1.address, 30000, 0);
       const balanceAfter = await movinToken.balanceOf(user1.address);
       expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('30'));
     });
 
     it('Should reject activity that exceeds rate limits', async function () {
-      await movinEarn.recordActivity(user1.address, 1000, 0);
+      await movinEarnActivity.recordActivity(user1.address, 1000, 0);
       // Calculate steps that exceed the rate limit
       const tooManySteps = MAX_STEPS_PER_MINUTE + 100;
 
       // Try to record too many steps too quickly
       await expect(
-        movinEarn.recordActivity(user1.address, tooManySteps, 0)
-      ).to.be.revertedWithCustomError(movinEarn, 'InvalidActivityInput');
+        movinEarnActivity.recordActivity(user1.address, tooManySteps, 0)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'InvalidActivityInput');
 
       // Calculate METs that exceed the rate limit
       const tooManyMETs = MAX_METS_PER_MINUTE + 2;
 
       // Try to record too many METs too quickly
       await expect(
-        movinEarn.recordActivity(user1.address, 0, tooManyMETs)
-      ).to.be.revertedWithCustomError(movinEarn, 'InvalidActivityInput');
+        movinEarnActivity.recordActivity(user1.address, 0, tooManyMETs)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'InvalidActivityInput');
     });
 
     it('Should reject multiple activity recordings within 1 minute', async function () {
       // First activity recording should succeed
-      await movinEarn.recordActivity(user1.address, 100, 1);
+      await movinEarnActivity.recordActivity(user1.address, 100, 1);
 
       const activity = await movinEarn.getTodayUserActivity(user1.address);
       expect(activity.dailySteps).to.equal(100);
@@ -785,15 +1344,14 @@ describe('MOVINEarnV2', function () {
       expect(activity.lastUpdated).to.not.equal(0);
 
       // Second activity recording within 1 minute should fail
-      await expect(movinEarn.recordActivity(user1.address, 100, 1)).to.be.revertedWithCustomError(
-        movinEarn,
-        'InvalidActivityInput'
-      );
+      await expect(
+        movinEarnActivity.recordActivity(user1.address, 100, 1)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'InvalidActivityInput');
 
       await time.increaseTo((await time.latest()) + 61); // 1 minute and 1 second
 
       // Now activity recording should succeed
-      await movinEarn.recordActivity(user1.address, 100, 1);
+      await movinEarnActivity.recordActivity(user1.address, 100, 1);
     });
 
     it('Should accept activity above maximum daily limits but not reward it', async function () {
@@ -805,7 +1363,7 @@ describe('MOVINEarnV2', function () {
       const initialBalance = await movinToken.balanceOf(user1.address);
 
       // Record 31,000 steps (should get 30 MVN, as only 30,000 are rewarded)
-      await movinEarn.recordActivity(user1.address, 31000, 0);
+      await movinEarnActivity.recordActivity(user1.address, 31000, 0);
       const balanceAfter = await movinToken.balanceOf(user1.address);
       expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('30'));
 
@@ -821,7 +1379,7 @@ describe('MOVINEarnV2', function () {
       const initialBalanceMets = await movinToken.balanceOf(user1.address);
 
       // Record METs activity above maximum
-      await movinEarn.recordActivity(user1.address, 0, MAX_DAILY_METS + 10);
+      await movinEarnActivity.recordActivity(user1.address, 0, MAX_DAILY_METS + 10);
 
       // Get balance after activity
       const balanceAfterMets = await movinToken.balanceOf(user1.address);
@@ -838,7 +1396,7 @@ describe('MOVINEarnV2', function () {
 
     it('Should reset activity at midnight', async function () {
       // Record activity (premium user gets lower thresholds)
-      await movinEarn.recordActivity(user1.address, 1, 1);
+      await movinEarnActivity.recordActivity(user1.address, 1, 1);
 
       // Verify activity was recorded
       let activity = await movinEarn.getTodayUserActivity(user1.address);
@@ -858,7 +1416,7 @@ describe('MOVINEarnV2', function () {
       expect(activity.dailyMets).to.equal(0);
 
       // Record new activity for the new day
-      await movinEarn.recordActivity(user1.address, 1, 1);
+      await movinEarnActivity.recordActivity(user1.address, 1, 1);
 
       // Get balance
       const balanceAfter = await movinToken.balanceOf(user1.address);
@@ -869,6 +1427,165 @@ describe('MOVINEarnV2', function () {
       expect(activity.dailyMets).to.equal(1);
     });
 
+    it('Should not carry a daily total over to the same day one year later', async function () {
+      await movinEarnActivity.recordActivity(user2.address, 1000, 0);
+      await time.increase(365 * ONE_DAY);
+
+      expect((await movinEarn.getTodayUserActivity(user2.address)).dailySteps).to.equal(0);
+
+      await movinEarnActivity.recordActivity(user2.address, 1000, 0);
+      expect((await movinEarn.getTodayUserActivity(user2.address)).dailySteps).to.equal(1000);
+    });
+
+    it('Should keep a per-day ledger of steps, METs and rewards', async function () {
+      const firstDay = Math.floor((await time.latest()) / ONE_DAY) + 1;
+      await time.increaseTo(firstDay * ONE_DAY + 60);
+
+      const balanceBefore = await movinToken.balanceOf(user2.address);
+      await movinEarnActivity.recordActivity(user2.address, 1000, 0);
+      await time.increase(61);
+      await movinEarnActivity.recordActivity(user2.address, 200, 0);
+      const firstDayRewards = (await movinToken.balanceOf(user2.address)) - balanceBefore;
+
+      await time.increaseTo((firstDay + 2) * ONE_DAY + 60);
+      await movinEarnActivity.recordActivity(user2.address, 500, 0);
+
+      const history = await movinEarn.getActivityHistory(user2.address, firstDay, firstDay + 2);
+      expect(history.length).to.equal(3);
+      expect(history[0].steps).to.equal(1200);
+      expect(history[0].mets).to.equal(0);
+      expect(history[0].rewards).to.equal(firstDayRewards);
+      expect(history[1].steps).to.equal(0);
+      expect(history[1].rewards).to.equal(0);
+      expect(history[2].steps).to.equal(500);
+      expect(history[2].rewards).to.be.gt(0);
+
+      await expect(movinEarn.getActivityHistory(user2.address, firstDay, firstDay - 1))
+        .to.be.revertedWithCustomError(movinEarn, 'InvalidDayRange')
+        .withArgs(firstDay, firstDay - 1);
+      await expect(
+        movinEarn.getActivityHistory(user2.address, firstDay, firstDay + 366)
+      ).to.be.revertedWithCustomError(movinEarn, 'InvalidDayRange');
+    });
+
+    it("Should reset the daily caps at the start of the user's local day", async function () {
+      const nineHours = 9 * 60 * 60;
+      await expect(movinEarn.connect(user2).setUtcOffset(nineHours))
+        .to.emit(movinEarn, 'UtcOffsetUpdated')
+        .withArgs(user2.address, nineHours);
+
+      // 23:30 local time (14:30 UTC)
+      const utcDay = Math.floor((await time.latest()) / ONE_DAY) + 1;
+      await time.increaseTo(utcDay * ONE_DAY + 14.5 * 60 * 60);
+      await movinEarnActivity.recordActivity(user2.address, MAX_DAILY_STEPS, 0);
+      await movinEarnActivity.recordActivity(user1.address, MAX_DAILY_STEPS, 0);
+      expect(await movinEarn.getUserDay(user2.address)).to.equal(utcDay);
+
+      // 00:30 local time (15:30 UTC): a new day for user2 but not for a UTC user
+      await time.increaseTo(utcDay * ONE_DAY + 15.5 * 60 * 60);
+      expect(await movinEarn.getUserDay(user2.address)).to.equal(utcDay + 1);
+      expect(await movinEarn.getUserDay(user1.address)).to.equal(utcDay);
+      expect((await movinEarn.getTodayUserActivity(user2.address)).dailySteps).to.equal(0);
+      expect((await movinEarn.getTodayUserActivity(user1.address)).dailySteps).to.equal(
+        MAX_DAILY_STEPS
+      );
+
+      const [stepsReward] = await movinEarnActivity.calculateActivityRewards(
+        user2.address,
+        1000,
+        0
+      );
+      expect(stepsReward).to.be.gt(0);
+      const [capReward] = await movinEarnActivity.calculateActivityRewards(user1.address, 1000, 0);
+      expect(capReward).to.equal(0);
+
+      await movinEarnActivity.recordActivity(user2.address, 1000, 0);
+      const history = await movinEarn.getActivityHistory(user2.address, utcDay, utcDay + 1);
+      expect(history[0].steps).to.equal(MAX_DAILY_STEPS);
+      expect(history[1].steps).to.equal(1000);
+    });
+
+    it('Should track streaks and apply the streak bonus to activity rewards', async function () {
+      const threshold = await movinEarn.streakStepsThreshold();
+      const firstDay = Math.floor((await time.latest()) / ONE_DAY) + 1;
+
+      for (let day = 0; day < 6; day++) {
+        await time.increaseTo((firstDay + day) * ONE_DAY + 60);
+        await expect(movinEarnActivity.recordActivity(user2.address, threshold, 0))
+          .to.emit(movinEarn, 'StreakUpdated')
+          .withArgs(user2.address, day + 1, day + 1);
+      }
+
+      // Activity below the threshold does not extend the streak
+      await time.increaseTo((firstDay + 6) * ONE_DAY + 60);
+      await expect(movinEarnActivity.recordActivity(user2.address, threshold - 1n, 0)).not.to.emit(
+        movinEarn,
+        'StreakUpdated'
+      );
+      expect(await movinEarn.getStreak(user2.address)).to.deep.equal([6n, 6n]);
+
+      // Reaching the threshold on the 7th day unlocks the +5% bonus
+      await time.increase(61);
+      const [stepsReward] = await movinEarnActivity.calculateActivityRewards(user2.address, 1, 0);
+      expect(stepsReward).to.equal(((await movinEarn.baseStepsRate()) * 10_500n) / 10_000n / 1000n);
+      await expect(movinEarnActivity.recordActivity(user2.address, 1, 0))
+        .to.emit(movinEarn, 'StreakUpdated')
+        .withArgs(user2.address, 7, 7);
+
+      // Missing a day breaks the streak but keeps the best one
+      await time.increaseTo((firstDay + 8) * ONE_DAY + 60);
+      expect(await movinEarn.getStreak(user2.address)).to.deep.equal([0n, 7n]);
+      await expect(movinEarnActivity.recordActivity(user2.address, threshold, 0))
+        .to.emit(movinEarn, 'StreakUpdated')
+        .withArgs(user2.address, 1, 7);
+    });
+
+    it('Should bound UTC offsets and rate-limit changes', async function () {
+      await expect(movinEarn.connect(user2).setUtcOffset(15 * 60 * 60))
+        .to.be.revertedWithCustomError(movinEarn, 'InvalidUtcOffset')
+        .withArgs(15 * 60 * 60);
+      await expect(
+        movinEarn.connect(user2).setUtcOffset(-13 * 60 * 60)
+      ).to.be.revertedWithCustomError(movinEarn, 'InvalidUtcOffset');
+
+      await movinEarn.connect(user2).setUtcOffset(-5 * 60 * 60);
+      const lastChange = await time.latest();
+      expect(await movinEarn.userUtcOffsets(user2.address)).to.equal(-5 * 60 * 60);
+
+      await expect(movinEarn.connect(user2).setUtcOffset(8 * 60 * 60))
+        .to.be.revertedWithCustomError(movinEarn, 'UtcOffsetChangeTooSoon')
+        .withArgs(lastChange, lastChange + THIRTY_DAYS);
+
+      await time.increaseTo(lastChange + THIRTY_DAYS);
+      await movinEarn.connect(user2).setUtcOffset(8 * 60 * 60);
+      expect(await movinEarn.userUtcOffsets(user2.address)).to.equal(8 * 60 * 60);
+    });
+
+    it('Should not let an offset change open another day for the daily cap', async function () {
+      const ONE_HOUR = 60 * 60;
+      const dayStart = (Math.floor((await time.latest()) / ONE_DAY) + 1) * ONE_DAY;
+
+      await time.increaseTo(dayStart + 9 * ONE_HOUR);
+      await movinEarnActivity.recordActivity(user2.address, 30_000, 0);
+
+      // Moving ahead would start the next local day right away, moving back would reopen the
+      // previous one once the UTC day is over
+      await time.increaseTo(dayStart + 11 * ONE_HOUR);
+      await expect(movinEarn.connect(user2).setUtcOffset(14 * ONE_HOUR))
+        .to.be.revertedWithCustomError(movinEarn, 'UtcOffsetChangeBeforeDayEnd')
+        .withArgs(dayStart + ONE_DAY);
+      await expect(movinEarn.connect(user2).setUtcOffset(-12 * ONE_HOUR))
+        .to.be.revertedWithCustomError(movinEarn, 'UtcOffsetChangeBeforeDayEnd')
+        .withArgs(dayStart + ONE_DAY + 12 * ONE_HOUR);
+
+      await time.increaseTo(dayStart + ONE_DAY);
+      await expect(
+        movinEarn.connect(user2).setUtcOffset(-12 * ONE_HOUR)
+      ).to.be.revertedWithCustomError(movinEarn, 'UtcOffsetChangeBeforeDayEnd');
+      await movinEarn.connect(user2).setUtcOffset(14 * ONE_HOUR);
+      expect(await movinEarn.getUserDay(user2.address)).to.equal(dayStart / ONE_DAY + 1);
+    });
+
     it('Should decrease reward rates by 0.1% daily', async function () {
       // Get initial rates
       const [initialStepsRate, initialMetsRate] = await movinEarn.getBaseRates();
@@ -877,7 +1594,7 @@ describe('MOVINEarnV2', function () {
       await time.increase(ONE_DAY);
 
       // Record activity to trigger rate decrease (premium user)
-      await movinEarn.recordActivity(user1.address, 1, 1);
+      await movinEarnActivity.recordActivity(user1.address, 1, 1);
 
       // Get new rates
       const [newStepsRate, newMetsRate] = await movinEarn.getBaseRates();
@@ -891,15 +1608,58 @@ describe('MOVINEarnV2', function () {
       expect(newMetsRate).to.equal(expectedMetsRate);
     });
 
+    it('Should match the per-day decrease within a bounded error', async function () {
+      const snapshot = await takeSnapshot();
+      const [initialStepsRate] = await movinEarn.getBaseRates();
+      const rewardHalvingTimestamp = Number(await movinEarn.rewardHalvingTimestamp());
+
+      for (const days of [2, 30, 365, 1000]) {
+        await time.increaseTo(rewardHalvingTimestamp + days * ONE_DAY + 60);
+
+        // Reference: the 0.1% decrease applied once per elapsed day
+        let expectedRate = initialStepsRate;
+        for (let i = 0; i < days; i++) {
+          expectedRate = (expectedRate * BigInt(999)) / BigInt(1000);
+        }
+
+        const [stepsRate] = await movinEarn.getBaseRates();
+        expect(stepsRate).to.be.closeTo(expectedRate, days + 1);
+      }
+
+      await snapshot.restore();
+    });
+
+    it('Should keep the rate update cost flat after 1, 365 and 3650 idle days', async function () {
+      const rewardHalvingTimestamp = Number(await movinEarn.rewardHalvingTimestamp());
+      const rateGas: bigint[] = [];
+      const recordGas: bigint[] = [];
+
+      for (const days of [1, 365, 3650]) {
+        const snapshot = await takeSnapshot();
+        await time.increaseTo(rewardHalvingTimestamp + days * ONE_DAY + 60);
+
+        rateGas.push(await movinEarn.getBaseRates.estimateGas());
+        const tx = await movinEarnActivity.recordActivity(user2.address, 1, 0);
+        recordGas.push((await tx.wait())!.gasUsed);
+
+        await snapshot.restore();
+      }
+
+      // The cost only grows with log2(days), a per-day loop would add about 1M gas after 3650 days
+      expect(rateGas[2] - rateGas[0]).to.be.lessThan(5_000);
+      expect(recordGas[2] - recordGas[0]).to.be.lessThan(5_000);
+      expect(recordGas[2] - recordGas[1]).to.be.lessThan(1_000);
+    });
+
     it('Should correctly distribute referral bonuses', async function () {
-      await movinEarn.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
       const referrerInitialBalance = await movinToken.balanceOf(user1.address);
       const refereeInitialBalance = await movinToken.balanceOf(user2.address);
       await movinToken
         .connect(user2)
         .approve(await movinEarn.getAddress(), ethers.parseEther('1000'));
-      await movinEarn.connect(user2).setPremiumStatus(true, ethers.parseEther('1000'));
-      await movinEarn.recordActivity(user2.address, 1000, 1);
+      await movinEarnPremium.connect(user2).subscribe(YEARLY_PLAN_ID);
+      await movinEarnActivity.recordActivity(user2.address, 1000, 1);
       const referrerFinalBalance = await movinToken.balanceOf(user1.address);
       const refereeFinalBalance = await movinToken.balanceOf(user2.address);
       const refereeReward = refereeFinalBalance - refereeInitialBalance;
@@ -907,14 +1667,85 @@ describe('MOVINEarnV2', function () {
         (refereeReward * BigInt(ACTIVITY_REFERRAL_BONUS_PERCENT)) / BigInt(10000);
       const actualReferrerBonus = referrerFinalBalance - referrerInitialBalance;
       expect(actualReferrerBonus).to.be.gt(0);
-      const [, earnedBonus] = await movinEarn.getReferralInfo(user1.address);
+      const [, earnedBonus] = await movinEarnReferral.getReferralInfo(user1.address);
       expect(earnedBonus).to.be.gt(0);
     });
 
+    it('Should accrue deferred activity rewards and mint them on claim', async function () {
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      await expect(movinEarnActivity.connect(user2).setDeferredActivityRewards(true))
+        .to.emit(movinEarn, 'DeferredRewardsUpdated')
+        .withArgs(user2.address, true);
+
+      const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
+      const balanceBefore = await movinToken.balanceOf(user2.address);
+      const [firstReward] = await movinEarnActivity.calculateActivityRewards(
+        user2.address,
+        1000,
+        0
+      );
+      await expect(movinEarnActivity.recordActivity(user2.address, 1000, 0))
+        .to.emit(movinEarn, 'ActivityRewardsDeferred')
+        .withArgs(user2.address, firstReward, 0);
+      await time.increase(61);
+      const [secondReward] = await movinEarnActivity.calculateActivityRewards(
+        user2.address,
+        200,
+        0
+      );
+      await movinEarnActivity.recordActivity(user2.address, 200, 0);
+
+      // Nothing is minted until the rewards are claimed
+      expect(await movinToken.balanceOf(user2.address)).to.equal(balanceBefore);
+      expect(await movinToken.balanceOf(user1.address)).to.equal(referrerBalanceBefore);
+      const activity = await movinEarn.getTodayUserActivity(user2.address);
+      expect(activity.pendingStepsRewards).to.equal(firstReward + secondReward);
+      expect(activity.lastRewardAccumulationTime).to.equal(await time.latest());
+
+      // A relayer can claim on behalf of the user, the rewards still go to the user
+      const totalReward = firstReward + secondReward;
+      const referralBonus = (totalReward * BigInt(ACTIVITY_REFERRAL_BONUS_PERCENT)) / BigInt(10000);
+      await expect(movinEarnActivity.connect(owner).claimActivityRewardsFor(user2.address))
+        .to.emit(movinEarn, 'RewardsClaimed')
+        .withArgs(user2.address, totalReward, 0, totalReward)
+        .and.to.emit(movinEarn, 'ReferralBonusPaid')
+        .withArgs(user1.address, user2.address, referralBonus);
+      expect((await movinToken.balanceOf(user2.address)) - balanceBefore).to.equal(totalReward);
+      expect((await movinToken.balanceOf(user1.address)) - referrerBalanceBefore).to.equal(
+        referralBonus
+      );
+
+      await expect(
+        movinEarnActivity.connect(user2).claimActivityRewards()
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'NoRewardsAvailable');
+    });
+
+    it('Should defer the activity rewards of every user in global mode', async function () {
+      await expect(
+        movinEarnActivity.connect(user1).setGlobalDeferredActivityRewards(true)
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
+      await expect(movinEarnActivity.setGlobalDeferredActivityRewards(true))
+        .to.emit(movinEarn, 'GlobalDeferredRewardsUpdated')
+        .withArgs(true);
+
+      const balanceBefore = await movinToken.balanceOf(user1.address);
+      await movinEarnActivity.recordActivity(user1.address, 1000, 1);
+      expect(await movinToken.balanceOf(user1.address)).to.equal(balanceBefore);
+
+      const activity = await movinEarn.getTodayUserActivity(user1.address);
+      expect(activity.pendingStepsRewards).to.be.gt(0);
+      expect(activity.pendingMetsRewards).to.be.gt(0);
+
+      await movinEarnActivity.connect(user1).claimActivityRewards();
+      expect((await movinToken.balanceOf(user1.address)) - balanceBefore).to.equal(
+        activity.pendingStepsRewards + activity.pendingMetsRewards
+      );
+    });
+
     it('Should correctly handle partial activity below thresholds', async function () {
       // Record 500 steps and 1 MET (should get 0.5 for steps, 0.2 for MET)
       const initialBalance = await movinToken.balanceOf(user1.address);
-      await movinEarn.recordActivity(user1.address, 500, 1);
+      await movinEarnActivity.recordActivity(user1.address, 500, 1);
       let activity = await movinEarn.getTodayUserActivity(user1.address);
       expect(activity.dailySteps).to.equal(500);
       expect(activity.dailyMets).to.equal(1);
@@ -923,7 +1754,7 @@ describe('MOVINEarnV2', function () {
       await time.increaseTo((await time.latest()) + 60 * 2);
 
       // Record 500 more steps (should now get 0.5 MVN for steps, total 1 for steps, 0.2 for MET)
-      await movinEarn.recordActivity(user1.address, 500, 0);
+      await movinEarnActivity.recordActivity(user1.address, 500, 0);
       let activity2 = await movinEarn.getTodayUserActivity(user1.address);
       expect(activity2.dailySteps).to.equal(1000);
       let balanceAfter2 = await movinToken.balanceOf(user1.address);
@@ -932,7 +1763,7 @@ describe('MOVINEarnV2', function () {
 
     it('Should handle zero inputs correctly', async function () {
       // Record activity with zero inputs
-      await movinEarn.recordActivity(user1.address, 0, 0);
+      await movinEarnActivity.recordActivity(user1.address, 0, 0);
 
       // Verify no activity was recorded
       const activity = await movinEarn.getTodayUserActivity(user1.address);
@@ -940,7 +1771,7 @@ describe('MOVINEarnV2', function () {
       expect(activity.dailyMets).to.equal(0);
 
       // Then record valid activity (premium user)
-      await movinEarn.recordActivity(user1.address, 1, 1);
+      await movinEarnActivity.recordActivity(user1.address, 1, 1);
 
       // Verify activity was recorded
       const updatedActivity = await movinEarn.getTodayUserActivity(user1.address);
@@ -953,25 +1784,24 @@ describe('MOVINEarnV2', function () {
       await movinEarn.connect(owner).emergencyPause();
 
       // Try to record activity
-      await expect(movinEarn.recordActivity(user1.address, 1, 1)).to.be.revertedWithCustomError(
-        movinEarn,
-        'ContractPaused'
-      );
+      await expect(
+        movinEarnActivity.recordActivity(user1.address, 1, 1)
+      ).to.be.revertedWithCustomError(movinEarn, 'ContractPaused');
 
       // Unpause the contract
       await movinEarn.connect(owner).emergencyUnpause();
 
       // Now activity recording should work (premium user)
-      await movinEarn.recordActivity(user1.address, 1, 1);
+      await movinEarnActivity.recordActivity(user1.address, 1, 1);
     });
 
     it('Should calculate rewards correctly', async function () {
       // Set up premium status
-      await movinEarn.connect(user1).setPremiumStatus(true, ethers.parseEther('1000'));
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
 
       // Test calculating rewards directly (premium user with lower thresholds)
       const [stepsReward, metsReward, totalSteps, totalMets] =
-        await movinEarn.calculateActivityRewards(user1.address, 2000, 1);
+        await movinEarnActivity.calculateActivityRewards(user1.address, 2000, 1);
       expect(stepsReward).to.equal(ethers.parseEther('2'));
       expect(metsReward).to.equal(ethers.parseEther('0.2')); // 1 MET = 0.2 MVN (1 MVN per 5 METs)
       expect(totalSteps).to.equal(2000);
@@ -979,67 +1809,547 @@ describe('MOVINEarnV2', function () {
     });
   });
 
-  describe('Referral system', function () {
-    // Set transactionSync to true for all users before referral tests
+  describe('Activity attestations', function () {
+    let oracle: HardhatEthersSigner;
+
+    async function signAttestation(
+      signer: HardhatEthersSigner,
+      attestation: {
+        user: string;
+        steps: bigint;
+        mets: bigint;
+        period: bigint;
+        nonce: bigint;
+        deadline: bigint;
+      }
+    ) {
+      const domain = {
+        name: 'MOVINEarn',
+        version: '1',
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await movinEarn.getAddress(),
+      };
+      const types = {
+        ActivityAttestation: [
+          { name: 'user', type: 'address' },
+          { name: 'steps', type: 'uint256' },
+          { name: 'mets', type: 'uint256' },
+          { name: 'period', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      };
+      return signer.signTypedData(domain, types, attestation);
+    }
+
+    async function buildAttestation(steps: bigint, mets: bigint) {
+      const now = BigInt(await time.latest());
+      return {
+        user: user1.address,
+        steps,
+        mets,
+        period: now / BigInt(ONE_DAY),
+        nonce: await movinEarn.nonces(user1.address),
+        deadline: now + BigInt(60 * 60),
+      };
+    }
+
     beforeEach(async function () {
-      await movinEarn.connect(owner).setTransactionSync(user1.address, true);
-      await movinEarn.connect(owner).setTransactionSync(user2.address, true);
-      // Set for user3 and user4 that are used in some referral tests
-      const [, , , user3, user4] = await ethers.getSigners();
-      await movinEarn.connect(owner).setTransactionSync(user3.address, true);
-      await movinEarn.connect(owner).setTransactionSync(user4.address, true);
+      [, , , , oracle] = await ethers.getSigners();
+      await movinEarn
+        .connect(owner)
+        .grantRole(await movinEarn.ACTIVITY_ORACLE_ROLE(), oracle.address);
     });
 
-    it('Should allow users to register referrals', async function () {
-      // Get balances before registering referral
-      const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
-      const refereeBalanceBefore = await movinToken.balanceOf(user2.address);
-
-      await expect(movinEarn.connect(user2).registerReferral(user1.address))
-        .to.emit(movinEarn, 'ReferralRegistered')
-        .withArgs(user2.address, user1.address);
+    it('Should reject direct activity recording from non-oracle accounts', async function () {
+      await expect(
+        movinEarnActivity.connect(user1).recordActivity(user1.address, 1000, 0)
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
 
-      // Check referral info for user2 (the referee)
-      const [referrer, earnedBonus, referralCount] = await movinEarn.getReferralInfo(user2.address);
-      expect(referrer).to.equal(user1.address);
-      expect(earnedBonus).to.equal(0);
-      expect(referralCount).to.equal(0); // user2 has no referrals yet
+      // The oracle itself can still record directly
+      await movinEarnActivity.connect(oracle).recordActivity(user1.address, 1000, 0);
+      const activity = await movinEarn.getTodayUserActivity(user1.address);
+      expect(activity.dailySteps).to.equal(1000);
+    });
 
-      // Check referral info for user1 (the referrer)
-      const [referrer1, earnedBonus1, referralCount1] = await movinEarn.getReferralInfo(
-        user1.address
-      );
-      expect(referrer1).to.equal('0x0000000000000000000000000000000000000000');
-      expect(earnedBonus1).to.equal(0);
-      expect(referralCount1).to.equal(1); // user1 has 1 referral (user2)
+    it('Should record activity with a valid attestation', async function () {
+      const attestation = await buildAttestation(1000n, 0n);
+      const signature = await signAttestation(oracle, attestation);
+      const initialBalance = await movinToken.balanceOf(user1.address);
 
-      // Get balances after registering referral
-      const referrerBalanceAfter = await movinToken.balanceOf(user1.address);
-      const refereeBalanceAfter = await movinToken.balanceOf(user2.address);
+      // The user submits the attestation themselves
+      await expect(
+        movinEarnActivity.connect(user1).recordActivityWithAttestation(attestation, signature)
+      )
+        .to.emit(movinEarn, 'ActivityAttested')
+        .withArgs(user1.address, attestation.period, attestation.nonce);
 
-      // Verify both referrer and referee received 1 MVN token
-      expect(referrerBalanceAfter - referrerBalanceBefore).to.equal(ethers.parseEther('1'));
-      expect(refereeBalanceAfter - refereeBalanceBefore).to.equal(ethers.parseEther('1'));
+      const balanceAfter = await movinToken.balanceOf(user1.address);
+      expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('1'));
+      expect(await movinEarn.nonces(user1.address)).to.equal(attestation.nonce + 1n);
     });
 
-    it('Should prevent self-referral', async function () {
-      await expect(
-        movinEarn.connect(user1).registerReferral(user1.address)
-      ).to.be.revertedWithCustomError(movinEarn, 'InvalidReferrer');
-    });
+    it('Should allow a relayer to submit an attestation on behalf of the user', async function () {
+      const attestation = await buildAttestation(500n, 0n);
+      const signature = await signAttestation(oracle, attestation);
+      const initialBalance = await movinToken.balanceOf(user1.address);
+
+      await movinEarnActivity.connect(user2).recordActivityWithAttestation(attestation, signature);
+
+      const balanceAfter = await movinToken.balanceOf(user1.address);
+      expect(balanceAfter - initialBalance).to.equal(ethers.parseEther('0.5'));
+    });
+
+    it('Should reject an expired attestation', async function () {
+      const attestation = await buildAttestation(1000n, 0n);
+      const signature = await signAttestation(oracle, attestation);
+
+      await time.increaseTo(attestation.deadline + 1n);
+
+      await expect(
+        movinEarnActivity.connect(user1).recordActivityWithAttestation(attestation, signature)
+      )
+        .to.be.revertedWithCustomError(movinEarnActivity, 'AttestationExpired')
+        .withArgs(attestation.deadline);
+    });
+
+    it('Should reject a replayed attestation', async function () {
+      const attestation = await buildAttestation(1000n, 0n);
+      const signature = await signAttestation(oracle, attestation);
+
+      await movinEarnActivity.connect(user1).recordActivityWithAttestation(attestation, signature);
+      await time.increase(60 * 2);
+
+      await expect(
+        movinEarnActivity.connect(user1).recordActivityWithAttestation(attestation, signature)
+      ).to.be.revertedWithCustomError(movinEarn, 'InvalidAccountNonce');
+    });
+
+    it('Should reject an attestation signed by the wrong key', async function () {
+      const attestation = await buildAttestation(1000n, 0n);
+      const signature = await signAttestation(user1, attestation);
+
+      await expect(
+        movinEarnActivity.connect(user1).recordActivityWithAttestation(attestation, signature)
+      )
+        .to.be.revertedWithCustomError(movinEarnActivity, 'InvalidAttestationSigner')
+        .withArgs(user1.address);
+    });
+
+    it('Should reject an attestation whose data was tampered with', async function () {
+      const attestation = await buildAttestation(1000n, 0n);
+      const signature = await signAttestation(oracle, attestation);
+
+      await expect(
+        movinEarnActivity
+          .connect(user1)
+          .recordActivityWithAttestation({ ...attestation, steps: 30000n }, signature)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'InvalidAttestationSigner');
+    });
+
+    it('Should reject attestations once the oracle role is revoked', async function () {
+      const attestation = await buildAttestation(1000n, 0n);
+      const signature = await signAttestation(oracle, attestation);
+
+      await movinEarn
+        .connect(owner)
+        .revokeRole(await movinEarn.ACTIVITY_ORACLE_ROLE(), oracle.address);
+
+      await expect(
+        movinEarnActivity.connect(user1).recordActivityWithAttestation(attestation, signature)
+      )
+        .to.be.revertedWithCustomError(movinEarnActivity, 'InvalidAttestationSigner')
+        .withArgs(oracle.address);
+    });
+  });
+
+  describe('Batched activity recording', function () {
+    it('Should record valid entries and skip invalid ones', async function () {
+      await movinEarnActivity.recordActivity(user2.address, 1000, 0);
+
+      const users = [
+        user1.address,
+        user2.address,
+        ethers.ZeroAddress,
+        user1.address,
+        migrator.address,
+      ];
+      const steps = [1000, 1000, 1000, 100, 0];
+      const mets = [0, 0, 0, 0, 0];
+
+      // user2 synced less than a minute ago, user1 appears twice in the same block
+      expect(await movinEarnActivity.recordActivityBatch.staticCall(users, steps, mets)).to.equal(
+        1
+      );
+      const tx = movinEarnActivity.recordActivityBatch(users, steps, mets);
+      await expect(tx)
+        .to.emit(movinEarnActivity, 'ActivityBatchEntryProcessed')
+        .withArgs(0, user1.address, true)
+        .and.to.emit(movinEarnActivity, 'ActivityBatchEntryProcessed')
+        .withArgs(1, user2.address, false)
+        .and.to.emit(movinEarnActivity, 'ActivityBatchEntryProcessed')
+        .withArgs(2, ethers.ZeroAddress, false)
+        .and.to.emit(movinEarnActivity, 'ActivityBatchEntryProcessed')
+        .withArgs(3, user1.address, false)
+        .and.to.emit(movinEarnActivity, 'ActivityBatchEntryProcessed')
+        .withArgs(4, migrator.address, false);
+
+      expect((await movinEarn.getTodayUserActivity(user1.address)).dailySteps).to.equal(1000);
+      expect((await movinEarn.getTodayUserActivity(user2.address)).dailySteps).to.equal(1000);
+
+      // The same entries go through once enough time has passed
+      await time.increase(61);
+      await movinEarnActivity.recordActivityBatch(
+        [user1.address, user2.address],
+        [100, 300],
+        [0, 0]
+      );
+      expect((await movinEarn.getTodayUserActivity(user1.address)).dailySteps).to.equal(1100);
+      expect((await movinEarn.getTodayUserActivity(user2.address)).dailySteps).to.equal(1300);
+    });
+
+    it('Should reject batches with mismatched lengths or from non-oracle accounts', async function () {
+      await expect(
+        movinEarnActivity.recordActivityBatch([user1.address, user2.address], [1000], [0, 0])
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'ActivityBatchLengthMismatch');
+      await expect(
+        movinEarnActivity.connect(user1).recordActivityBatch([user1.address], [1000], [0])
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'AccessControlUnauthorizedAccount');
+
+      await movinEarn.emergencyPause();
+      await expect(
+        movinEarnActivity.recordActivityBatch([user1.address], [1000], [0])
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'ContractPaused');
+    });
+
+    it('Should cost less gas per entry than one transaction per user', async function () {
+      const users = Array.from({ length: 20 }, () => ethers.Wallet.createRandom().address);
+
+      const singleTx = await movinEarnActivity.recordActivity(users[0], 1000, 0);
+      const singleGas = (await singleTx.wait())!.gasUsed;
+
+      const batchTx = await movinEarnActivity.recordActivityBatch(
+        users.slice(1),
+        users.slice(1).map(() => 1000),
+        users.slice(1).map(() => 0)
+      );
+      const gasPerEntry = (await batchTx.wait())!.gasUsed / BigInt(users.length - 1);
+
+      expect(gasPerEntry).to.be.lt(singleGas);
+    });
+  });
+
+  describe('Daily activity settlement', function () {
+    let day: number;
+
+    beforeEach(async function () {
+      day = Math.floor((await time.latest()) / ONE_DAY) + 1;
+      await time.increaseTo(day * ONE_DAY + 60);
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
+    });
+
+    it('Should settle daily activity from the posted Merkle root', async function () {
+      await movinEarnReferral.connect(user1).registerReferral(user2.address);
+      const entries = [
+        { user: user1.address, day, steps: 12_000, mets: 20 },
+        { user: user2.address, day, steps: 8_000, mets: 10 },
+        ...Array.from({ length: 3 }, () => ({
+          user: ethers.Wallet.createRandom().address,
+          day,
+          steps: 5_000,
+          mets: 0,
+        })),
+      ];
+      const tree = buildActivityTree(entries);
+
+      await expect(movinEarnActivity.postDailyActivityRoot(day, tree.root))
+        .to.emit(movinEarnActivity, 'DailyActivityRootPosted')
+        .withArgs(day, tree.root);
+      await time.increaseTo((day + 1) * ONE_DAY + 60);
+
+      // A relayer settles user1, whose METs are rewarded as a premium user
+      const user1BalanceBefore = await movinToken.balanceOf(user1.address);
+      const referrerBalanceBefore = await movinToken.balanceOf(user2.address);
+      const tx = movinEarnActivity
+        .connect(user2)
+        .claimDailyActivity(user1.address, day, 12_000, 20, getActivityProof(tree, entries[0]));
+      await expect(tx)
+        .to.emit(movinEarnActivity, 'DailyActivitySettled')
+        .withArgs(user1.address, day, 12_000, 20, anyValue);
+
+      const [stepsRate, metsRate] = [
+        await movinEarn.baseStepsRate(),
+        await movinEarn.baseMetsRate(),
+      ];
+      const user1Reward = (12_000n * stepsRate) / 1000n + (20n * metsRate) / 5n;
+      expect((await movinToken.balanceOf(user1.address)) - user1BalanceBefore).to.equal(
+        user1Reward
+      );
+      expect((await movinToken.balanceOf(user2.address)) - referrerBalanceBefore).to.equal(
+        (user1Reward * BigInt(ACTIVITY_REFERRAL_BONUS_PERCENT)) / BigInt(10000)
+      );
+
+      // METs are not rewarded for non-premium users
+      const user2BalanceBefore = await movinToken.balanceOf(user2.address);
+      await movinEarnActivity.claimDailyActivity(
+        user2.address,
+        day,
+        8_000,
+        10,
+        getActivityProof(tree, entries[1])
+      );
+      expect((await movinToken.balanceOf(user2.address)) - user2BalanceBefore).to.equal(
+        (8_000n * stepsRate) / 1000n
+      );
+
+      for (const entry of entries.slice(2)) {
+        await movinEarnActivity.claimDailyActivity(
+          entry.user,
+          day,
+          entry.steps,
+          entry.mets,
+          getActivityProof(tree, entry)
+        );
+        expect(await movinToken.balanceOf(entry.user)).to.equal((5_000n * stepsRate) / 1000n);
+      }
+
+      const [ledger] = await movinEarn.getActivityHistory(user1.address, day, day);
+      expect(ledger.steps).to.equal(12_000);
+      expect(ledger.mets).to.equal(20);
+      expect(ledger.rewards).to.equal(user1Reward);
+
+      await expect(
+        movinEarnActivity.claimDailyActivity(
+          user1.address,
+          day,
+          12_000,
+          20,
+          getActivityProof(tree, entries[0])
+        )
+      )
+        .to.be.revertedWithCustomError(movinEarnActivity, 'ActivityAlreadySettled')
+        .withArgs(user1.address, day);
+    });
+
+    it('Should not reward recorded activity twice and cap the daily totals', async function () {
+      await movinEarnActivity.recordActivity(user2.address, 1_000, 0);
+
+      const entries = [
+        { user: user1.address, day, steps: 40_000, mets: 0 },
+        { user: user2.address, day, steps: 3_000, mets: 0 },
+      ];
+      const tree = buildActivityTree(entries);
+      await movinEarnActivity.postDailyActivityRoot(day, tree.root);
+      await time.increaseTo((day + 1) * ONE_DAY + 60);
+
+      const balanceBefore = await movinToken.balanceOf(user2.address);
+      await movinEarnActivity.claimDailyActivity(
+        user2.address,
+        day,
+        3_000,
+        0,
+        getActivityProof(tree, entries[1])
+      );
+      const stepsRate = await movinEarn.baseStepsRate();
+      expect((await movinToken.balanceOf(user2.address)) - balanceBefore).to.equal(
+        (2_000n * stepsRate) / 1000n
+      );
+      expect((await movinEarn.getActivityHistory(user2.address, day, day))[0].steps).to.equal(
+        3_000
+      );
+
+      await expect(
+        movinEarnActivity.claimDailyActivity(
+          user1.address,
+          day,
+          40_000,
+          0,
+          getActivityProof(tree, entries[0])
+        )
+      )
+        .to.emit(movinEarnActivity, 'DailyActivitySettled')
+        .withArgs(
+          user1.address,
+          day,
+          MAX_DAILY_STEPS,
+          0,
+          (BigInt(MAX_DAILY_STEPS) * stepsRate) / 1000n
+        );
+    });
+
+    it('Should reward METs only if the user had premium on the settled day', async function () {
+      const entries = [
+        { user: user1.address, day, steps: 1_000, mets: 20 },
+        { user: user2.address, day, steps: 1_000, mets: 20 },
+      ];
+      const tree = buildActivityTree(entries);
+      await movinEarnActivity.postDailyActivityRoot(day, tree.root);
+
+      // user1's subscription lapses after the day, user2 only subscribes once it is over
+      await time.increaseTo(day * ONE_DAY + ONE_YEAR + ONE_DAY);
+      await movinEarnPremium.connect(user2).subscribe(YEARLY_PLAN_ID);
+      expect((await movinEarn.getPremiumStatus(user1.address)).status).to.be.false;
+
+      for (const entry of entries) {
+        await movinEarnActivity.claimDailyActivity(
+          entry.user,
+          day,
+          entry.steps,
+          entry.mets,
+          getActivityProof(tree, entry)
+        );
+      }
+
+      // The rates read after the claims, which applied the decreases of the past year
+      const [stepsRate, metsRate] = [
+        await movinEarn.baseStepsRate(),
+        await movinEarn.baseMetsRate(),
+      ];
+      expect((await movinEarn.getActivityHistory(user1.address, day, day))[0].rewards).to.equal(
+        stepsRate + (20n * metsRate) / 5n
+      );
+      expect((await movinEarn.getActivityHistory(user2.address, day, day))[0].rewards).to.equal(
+        stepsRate
+      );
+    });
+
+    it('Should extend streaks and apply the streak bonus to settled days', async function () {
+      const threshold = await movinEarn.streakStepsThreshold();
+      const entries = Array.from({ length: 7 }, (_, i) => ({
+        user: user2.address,
+        day: day + i,
+        steps: Number(threshold),
+        mets: 0,
+      }));
+      const trees = entries.map(entry => buildActivityTree([entry]));
+      for (let i = 0; i < entries.length; i++) {
+        await movinEarnActivity.postDailyActivityRoot(entries[i].day, trees[i].root);
+      }
+      await time.increaseTo((day + 7) * ONE_DAY + 60);
+
+      for (let i = 0; i < entries.length; i++) {
+        await expect(
+          movinEarnActivity.claimDailyActivity(
+            user2.address,
+            entries[i].day,
+            entries[i].steps,
+            0,
+            getActivityProof(trees[i], entries[i])
+          )
+        )
+          .to.emit(movinEarn, 'StreakUpdated')
+          .withArgs(user2.address, i + 1, i + 1);
+      }
+
+      // The 7th day in a row gets the +5% bonus
+      const stepsRate = await movinEarn.baseStepsRate();
+      const baseReward = (threshold * stepsRate) / 1000n;
+      const history = await movinEarn.getActivityHistory(user2.address, day, day + 6);
+      expect(history[5].rewards).to.equal(baseReward);
+      expect(history[6].rewards).to.equal(baseReward + (baseReward * 500n) / 10_000n);
+
+      // Recording today's activity carries on from the settled days
+      await expect(movinEarnActivity.recordActivity(user2.address, threshold, 0))
+        .to.emit(movinEarn, 'StreakUpdated')
+        .withArgs(user2.address, 8, 8);
+    });
+
+    it('Should reject invalid roots, days and proofs', async function () {
+      const entries = [
+        { user: user1.address, day, steps: 1_000, mets: 0 },
+        { user: user2.address, day, steps: 2_000, mets: 0 },
+      ];
+      const tree = buildActivityTree(entries);
+      const proof = getActivityProof(tree, entries[0]);
+
+      await expect(
+        movinEarnActivity.connect(user1).postDailyActivityRoot(day, tree.root)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'AccessControlUnauthorizedAccount');
+      await expect(movinEarnActivity.claimDailyActivity(user1.address, day, 1_000, 0, proof))
+        .to.be.revertedWithCustomError(movinEarnActivity, 'ActivityRootNotPosted')
+        .withArgs(day);
+
+      await movinEarnActivity.postDailyActivityRoot(day, tree.root);
+      await expect(movinEarnActivity.postDailyActivityRoot(day, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(movinEarnActivity, 'ActivityRootAlreadyPosted')
+        .withArgs(day);
+
+      // The day has to be over for the user
+      await expect(movinEarnActivity.claimDailyActivity(user1.address, day, 1_000, 0, proof))
+        .to.be.revertedWithCustomError(movinEarnActivity, 'ActivityDayNotOver')
+        .withArgs(day);
+
+      await time.increaseTo((day + 1) * ONE_DAY + 60);
+      await expect(
+        movinEarnActivity.claimDailyActivity(user1.address, day, 2_000, 0, proof)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'InvalidActivityProof');
+      await expect(
+        movinEarnActivity.claimDailyActivity(user2.address, day, 1_000, 0, proof)
+      ).to.be.revertedWithCustomError(movinEarnActivity, 'InvalidActivityProof');
+    });
+  });
+
+  describe('Referral system', function () {
+    // Set transactionSync to true for all users before referral tests
+    beforeEach(async function () {
+      await movinEarn.connect(owner).setTransactionSync(user1.address, true);
+      await movinEarn.connect(owner).setTransactionSync(user2.address, true);
+      // Set for user3 and user4 that are used in some referral tests
+      const [, , , user3, user4] = await ethers.getSigners();
+      await movinEarn.connect(owner).setTransactionSync(user3.address, true);
+      await movinEarn.connect(owner).setTransactionSync(user4.address, true);
+    });
+
+    it('Should allow users to register referrals', async function () {
+      // Get balances before registering referral
+      const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
+      const refereeBalanceBefore = await movinToken.balanceOf(user2.address);
+
+      await expect(movinEarnReferral.connect(user2).registerReferral(user1.address))
+        .to.emit(movinEarn, 'ReferralRegistered')
+        .withArgs(user2.address, user1.address)
+        .and.to.emit(movinEarnReferral, 'ReferralBonusEscrowed')
+        .withArgs(user2.address, user1.address, ethers.parseEther('1'), anyValue);
+
+      // Check referral info for user2 (the referee)
+      const [referrer, earnedBonus, referralCount] = await movinEarnReferral.getReferralInfo(
+        user2.address
+      );
+      expect(referrer).to.equal(user1.address);
+      expect(earnedBonus).to.equal(0);
+      expect(referralCount).to.equal(0); // user2 has no referrals yet
+
+      // Check referral info for user1 (the referrer)
+      const [referrer1, earnedBonus1, referralCount1] = await movinEarnReferral.getReferralInfo(
+        user1.address
+      );
+      expect(referrer1).to.equal('0x0000000000000000000000000000000000000000');
+      expect(earnedBonus1).to.equal(0);
+      expect(referralCount1).to.equal(1); // user1 has 1 referral (user2)
+
+      // The signup bonus is escrowed until the referee reaches the milestone
+      expect(await movinToken.balanceOf(user1.address)).to.equal(referrerBalanceBefore);
+      expect(await movinToken.balanceOf(user2.address)).to.equal(refereeBalanceBefore);
+    });
+
+    it('Should prevent self-referral', async function () {
+      await expect(
+        movinEarnReferral.connect(user1).registerReferral(user1.address)
+      ).to.be.revertedWithCustomError(movinEarnReferral, 'InvalidReferrer');
+    });
 
     it('Should prevent registering a referral twice', async function () {
-      await movinEarn.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
       await expect(
-        movinEarn.connect(user2).registerReferral(user1.address)
-      ).to.be.revertedWithCustomError(movinEarn, 'AlreadyReferred');
+        movinEarnReferral.connect(user2).registerReferral(user1.address)
+      ).to.be.revertedWithCustomError(movinEarnReferral, 'AlreadyReferred');
     });
 
     it('Should track referrals correctly', async function () {
-      await movinEarn.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
 
       // Check user1's referrals
-      const referrals = await movinEarn.getUserReferrals(user1.address);
+      const referrals = await movinEarnReferral.getUserReferrals(user1.address);
       expect(referrals.length).to.equal(1);
       expect(referrals[0]).to.equal(user2.address);
     });
@@ -1049,40 +2359,40 @@ describe('MOVINEarnV2', function () {
       const [owner, user1, user2, user3, user4] = await ethers.getSigners();
 
       // User1 should be able to refer multiple users
-      await movinEarn.connect(user2).registerReferral(user1.address);
-      await movinEarn.connect(user3).registerReferral(user1.address);
-      await movinEarn.connect(user4).registerReferral(user1.address);
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user3).registerReferral(user1.address);
+      await movinEarnReferral.connect(user4).registerReferral(user1.address);
 
       // Get user1's referrals
-      const referrals = await movinEarn.getUserReferrals(user1.address);
+      const referrals = await movinEarnReferral.getUserReferrals(user1.address);
       expect(referrals.length).to.equal(3);
       expect(referrals).to.include(user2.address);
       expect(referrals).to.include(user3.address);
       expect(referrals).to.include(user4.address);
 
       // Verify referral count for user1
-      const [referrer1, earnedBonus1, referralCount] = await movinEarn.getReferralInfo(
+      const [referrer1, earnedBonus1, referralCount] = await movinEarnReferral.getReferralInfo(
         user1.address
       );
       expect(referralCount).to.equal(3);
 
       // Verify each referee has user1 as their referrer
-      const [referrer2] = await movinEarn.getReferralInfo(user2.address);
-      const [referrer3] = await movinEarn.getReferralInfo(user3.address);
-      const [referrer4] = await movinEarn.getReferralInfo(user4.address);
+      const [referrer2] = await movinEarnReferral.getReferralInfo(user2.address);
+      const [referrer3] = await movinEarnReferral.getReferralInfo(user3.address);
+      const [referrer4] = await movinEarnReferral.getReferralInfo(user4.address);
       expect(referrer2).to.equal(user1.address);
       expect(referrer3).to.equal(user1.address);
       expect(referrer4).to.equal(user1.address);
 
       // Verify rewards are properly distributed to referrer
-      await movinEarn.connect(user2).setPremiumStatus(true, ethers.parseEther('1000'));
+      await movinEarnPremium.connect(user2).subscribe(YEARLY_PLAN_ID);
 
       // Get balances before activity
       const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
       const refereeBalanceBefore = await movinToken.balanceOf(user2.address);
 
       // Record activity to trigger automatic rewards (premium user)
-      await movinEarn.recordActivity(user2.address, 1000, 1);
+      await movinEarnActivity.recordActivity(user2.address, 1000, 1);
 
       // Get balances after activity
       const referrerBalanceAfter = await movinToken.balanceOf(user1.address);
@@ -1103,26 +2413,28 @@ describe('MOVINEarnV2', function () {
       expect(referrerBalanceAfter - referrerBalanceBefore).to.equal(expectedBonus);
 
       // Get user1's earned bonus from referral info
-      const [referrer1After, earnedBonusAfter] = await movinEarn.getReferralInfo(user1.address);
+      const [referrer1After, earnedBonusAfter] = await movinEarnReferral.getReferralInfo(
+        user1.address
+      );
       expect(earnedBonusAfter).to.equal(ethers.parseEther('0.012')); // 1% of 1.2 MVN total reward
     });
 
     it('Should handle referral rewards correctly', async function () {
       // Set up referral relationship
-      await movinEarn.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
 
       // Set user2 as premium to get both steps and METs rewards
       await movinToken
         .connect(user2)
         .approve(await movinEarn.getAddress(), ethers.parseEther('1000'));
-      await movinEarn.connect(user2).setPremiumStatus(true, ethers.parseEther('1000'));
+      await movinEarnPremium.connect(user2).subscribe(YEARLY_PLAN_ID);
 
       // Get balances before activity
       const user2BalanceBefore = await movinToken.balanceOf(user2.address);
       const user1BalanceBefore = await movinToken.balanceOf(user1.address);
 
       // Record activity for user2 to generate rewards (premium user)
-      await movinEarn.recordActivity(user2.address, 1000, 1);
+      await movinEarnActivity.recordActivity(user2.address, 1000, 1);
 
       // Get balances after activity
       const user2BalanceAfter = await movinToken.balanceOf(user2.address);
@@ -1146,25 +2458,306 @@ describe('MOVINEarnV2', function () {
       expect(user1Received).to.be.closeTo(referralBonus, tolerance);
 
       // Verify referral info was updated
-      const [_, earnedBonus] = await movinEarn.getReferralInfo(user1.address);
+      const [_, earnedBonus] = await movinEarnReferral.getReferralInfo(user1.address);
       expect(earnedBonus).to.equal(referralBonus);
     });
 
-    it('Should distribute 1 MVN token to both referrer and referee when registering a referral', async function () {
-      // Get balances before registering referral
+    it('Should pay every referral tier up the referrer chain', async function () {
+      const [, , , user3, user4] = await ethers.getSigners();
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      await movinEarnReferral.connect(user3).registerReferral(user2.address);
+      await movinEarnReferral.connect(user4).registerReferral(user3.address);
+
+      await movinEarnParameters.queueReferralTiers([100, 50, 25]);
+      await time.increase(await movinEarn.PARAMETER_CHANGE_DELAY());
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+      await movinEarnParameters.executeParameterChange(change.id);
+      expect(await movinEarnParameters.getReferralTiers()).to.deep.equal([100n, 50n, 25n]);
+
+      const chain = [user4, user3, user2, user1];
+      const balancesBefore = await Promise.all(chain.map(user => movinToken.balanceOf(user)));
+      const tx = await movinEarnActivity.recordActivity(user4.address, 1000, 0);
+      const received = await Promise.all(
+        chain.map(async (user, i) => (await movinToken.balanceOf(user)) - balancesBefore[i])
+      );
+
+      const totalReward = received[0];
+      const tierBonuses = [100n, 50n, 25n].map(bps => (totalReward * bps) / 10_000n);
+      expect(received.slice(1)).to.deep.equal(tierBonuses);
+      for (const [i, referrer] of [user3, user2, user1].entries()) {
+        await expect(tx)
+          .to.emit(movinEarnActivity, 'ReferralTierBonusPaid')
+          .withArgs(referrer.address, user4.address, i + 1, tierBonuses[i]);
+        expect(await movinEarn.referralBonusByLevel(referrer.address, i + 1)).to.equal(
+          tierBonuses[i]
+        );
+        expect((await movinEarnReferral.getReferralInfo(referrer.address))[1]).to.equal(
+          tierBonuses[i]
+        );
+      }
+      // Only the direct referrer gets the legacy event
+      await expect(tx)
+        .to.emit(movinEarn, 'ReferralBonusPaid')
+        .withArgs(user3.address, user4.address, tierBonuses[0]);
+      const legacyEvents = (await tx.wait())!.logs.filter(
+        log => movinEarn.interface.parseLog(log)?.name === 'ReferralBonusPaid'
+      );
+      expect(legacyEvents).to.have.lengthOf(1);
+
+      // Referrer chains cannot loop back within the paid levels
+      await expect(
+        movinEarnReferral.connect(user1).registerReferral(user3.address)
+      ).to.be.revertedWithCustomError(movinEarnReferral, 'InvalidReferrer');
+    });
+
+    it('Should pay referrers their share of staking and meal rewards', async function () {
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      await movinEarnStaking.connect(user2).stakeTokens(ONE_THOUSAND_TOKENS, 1);
+
+      // No share until one is configured
+      await time.increase(ONE_DAY);
+      await expect(movinEarnStaking.connect(user2).claimStakingRewards(0)).not.to.emit(
+        movinEarn,
+        'ReferralRewardShared'
+      );
+
+      await movinEarnParameters.queueReferralSourceShares(100, 200);
+      await time.increase(await movinEarn.PARAMETER_CHANGE_DELAY());
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+      await movinEarnParameters.executeParameterChange(change.id);
+
+      const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
+      const stakingTx = await movinEarnStaking.connect(user2).claimAllStakingRewards();
+      const claimedEvent = (await stakingTx.wait())!.logs
+        .map(log => movinEarn.interface.parseLog(log))
+        .find(event => event?.name === 'AllStakingRewardsClaimed');
+      const stakingShare = (claimedEvent!.args.totalReward * 100n) / 10_000n;
+      await expect(stakingTx)
+        .to.emit(movinEarn, 'ReferralRewardShared')
+        .withArgs(
+          user1.address,
+          user2.address,
+          await movinEarn.REFERRAL_SOURCE_STAKING(),
+          stakingShare
+        );
+
+      const mealReward = ethers.parseEther('0.5');
+      await expect(movinEarn.connect(owner).claimMealRewards(user2.address, 50))
+        .to.emit(movinEarn, 'ReferralRewardShared')
+        .withArgs(
+          user1.address,
+          user2.address,
+          await movinEarn.REFERRAL_SOURCE_MEAL(),
+          (mealReward * 200n) / 10_000n
+        );
+
+      const mealShare = (mealReward * 200n) / 10_000n;
+      expect((await movinToken.balanceOf(user1.address)) - referrerBalanceBefore).to.equal(
+        stakingShare + mealShare
+      );
+      expect(await movinEarnReferral.getReferralEarnings(user1.address)).to.deep.equal([
+        0n,
+        stakingShare,
+        mealShare,
+      ]);
+      expect((await movinEarnReferral.getReferralInfo(user1.address))[1]).to.equal(
+        stakingShare + mealShare
+      );
+    });
+
+    it('Should pay the staking share when rewards are compounded', async function () {
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      await movinEarnParameters.queueReferralSourceShares(100, 0);
+      await time.increase(await movinEarn.PARAMETER_CHANGE_DELAY());
+      await movinEarnParameters.executeParameterChange(0);
+
+      await movinEarnStaking.connect(user2).stakeTokens(ONE_THOUSAND_TOKENS, 1);
+      await movinEarnStaking.connect(user2).setAutoCompound(0, true);
+      await time.increase(10 * ONE_DAY);
+
+      const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
+      const pokeTx = await movinEarnStaking.poke(user2.address, 0);
+      const compoundedEvent = (await pokeTx.wait())!.logs
+        .map(log => movinEarn.interface.parseLog(log))
+        .find(event => event?.name === 'StakeCompounded');
+      const stakingShare = (compoundedEvent!.args.reward * 100n) / 10_000n;
+      await expect(pokeTx)
+        .to.emit(movinEarn, 'ReferralRewardShared')
+        .withArgs(
+          user1.address,
+          user2.address,
+          await movinEarn.REFERRAL_SOURCE_STAKING(),
+          stakingShare
+        );
+      expect((await movinToken.balanceOf(user1.address)) - referrerBalanceBefore).to.equal(
+        stakingShare
+      );
+      expect((await movinEarnReferral.getReferralEarnings(user1.address))[1]).to.equal(
+        stakingShare
+      );
+    });
+
+    it('Should release 1 MVN to both referrer and referee once the referee reaches the milestone', async function () {
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      const [referees, bonuses] = await movinEarnReferral.getPendingReferralBonuses(user1.address);
+      expect(referees).to.deep.equal([user2.address]);
+      expect(bonuses[0].amount).to.equal(ethers.parseEther('1'));
+      expect(bonuses[0].expiresAt).to.equal(BigInt((await time.latest()) + THIRTY_DAYS));
+
+      // The default milestone is 3 active days and 10,000 steps
+      for (let day = 0; day < 3; day++) {
+        await expect(
+          movinEarnReferral.releaseReferralBonus(user2.address)
+        ).to.be.revertedWithCustomError(movinEarnReferral, 'ReferralMilestoneNotReached');
+
+        await time.increase(ONE_DAY);
+        await movinEarnActivity.recordActivity(user2.address, 4000, 0);
+      }
+      expect(await movinEarn.activeDays(user2.address)).to.equal(3);
+
+      // Activity rewards include the referrer's share, compare balances around the release only
       const referrerBalanceBefore = await movinToken.balanceOf(user1.address);
       const refereeBalanceBefore = await movinToken.balanceOf(user2.address);
+      await expect(movinEarnReferral.connect(owner).releaseReferralBonus(user2.address))
+        .to.emit(movinEarnReferral, 'ReferralBonusReleased')
+        .withArgs(user2.address, user1.address, ethers.parseEther('1'));
 
-      // Register referral
-      await movinEarn.connect(user2).registerReferral(user1.address);
+      expect((await movinToken.balanceOf(user1.address)) - referrerBalanceBefore).to.equal(
+        ethers.parseEther('1')
+      );
+      expect((await movinToken.balanceOf(user2.address)) - refereeBalanceBefore).to.equal(
+        ethers.parseEther('1')
+      );
+      expect((await movinEarnReferral.getPendingReferralBonuses(user1.address))[0]).to.be.empty;
+      await expect(movinEarnReferral.releaseReferralBonus(user2.address))
+        .to.be.revertedWithCustomError(movinEarnReferral, 'NoReferralBonusPending')
+        .withArgs(user2.address);
+    });
 
-      // Get balances after registering referral
-      const referrerBalanceAfter = await movinToken.balanceOf(user1.address);
-      const refereeBalanceAfter = await movinToken.balanceOf(user2.address);
+    it('Should forfeit referral signup bonuses that are not released in time', async function () {
+      const [, , , user3] = await ethers.getSigners();
+      await movinEarnReferral.connect(user2).registerReferral(user1.address);
+      const [, expiresAt] = await movinEarn.referralSignupBonuses(user2.address);
 
-      // Verify both referrer and referee received 1 MVN token
-      expect(referrerBalanceAfter - referrerBalanceBefore).to.equal(ethers.parseEther('1'));
-      expect(refereeBalanceAfter - refereeBalanceBefore).to.equal(ethers.parseEther('1'));
+      await time.increase(ONE_DAY);
+      await movinEarnReferral.connect(user3).registerReferral(user1.address);
+      const [, laterExpiresAt] = await movinEarn.referralSignupBonuses(user3.address);
+      for (let day = 0; day < 3; day++) {
+        await movinEarnActivity.recordActivity(user2.address, 4000, 0);
+        await time.increase(ONE_DAY);
+      }
+
+      await time.increaseTo(expiresAt + 1n);
+      expect(await movinEarnReferral.getPendingReferralBonuses(user1.address)).to.deep.equal([
+        [user3.address],
+        [[ethers.parseEther('1'), laterExpiresAt]],
+      ]);
+      await expect(movinEarnReferral.releaseReferralBonus(user2.address))
+        .to.be.revertedWithCustomError(movinEarnReferral, 'ReferralBonusExpired')
+        .withArgs(user2.address, expiresAt);
+    });
+
+    it('Should page through the referrals of a user', async function () {
+      const [, , , user3, user4] = await ethers.getSigners();
+      for (const referee of [user2, user3, user4]) {
+        await movinEarnReferral.connect(referee).registerReferral(user1.address);
+      }
+
+      expect(await movinEarnReferral.getUserReferralCount(user1.address)).to.equal(3);
+      expect(await movinEarnReferral.getUserReferralsPage(user1.address, 0, 2)).to.deep.equal([
+        user2.address,
+        user3.address,
+      ]);
+      expect(await movinEarnReferral.getUserReferralsPage(user1.address, 2, 2)).to.deep.equal([
+        user4.address,
+      ]);
+      expect(await movinEarnReferral.getUserReferralsPage(user1.address, 5, 2)).to.be.empty;
+      expect(await movinEarnReferral.getUserReferralCount(user2.address)).to.equal(0);
+    });
+
+    it('Should register referrals with a claimed referral code', async function () {
+      const code = ethers.encodeBytes32String('movin-runner');
+
+      await expect(movinEarnReferral.connect(user1).claimReferralCode(code))
+        .to.emit(movinEarnReferral, 'ReferralCodeClaimed')
+        .withArgs(code, user1.address);
+      expect(await movinEarn.referralCodeOwners(code)).to.equal(user1.address);
+      expect(await movinEarn.referralCodes(user1.address)).to.equal(code);
+
+      await expect(movinEarnReferral.connect(user2).registerReferralWithCode(code))
+        .to.emit(movinEarn, 'ReferralRegistered')
+        .withArgs(user2.address, user1.address);
+      expect(await movinEarnReferral.getUserReferrals(user1.address)).to.deep.equal([
+        user2.address,
+      ]);
+
+      // Codes are unique, one per user, and unknown codes cannot be used
+      const [, , , user3] = await ethers.getSigners();
+      await expect(movinEarnReferral.connect(user3).claimReferralCode(code))
+        .to.be.revertedWithCustomError(movinEarnReferral, 'ReferralCodeUnavailable')
+        .withArgs(code);
+      await expect(
+        movinEarnReferral.connect(user1).claimReferralCode(ethers.encodeBytes32String('other'))
+      )
+        .to.be.revertedWithCustomError(movinEarnReferral, 'ReferralCodeAlreadySet')
+        .withArgs(user1.address, code);
+      await expect(movinEarnReferral.connect(user3).claimReferralCode(ethers.ZeroHash))
+        .to.be.revertedWithCustomError(movinEarnReferral, 'InvalidReferralCode')
+        .withArgs(ethers.ZeroHash);
+      await expect(
+        movinEarnReferral
+          .connect(user3)
+          .registerReferralWithCode(ethers.encodeBytes32String('unknown'))
+      ).to.be.revertedWithCustomError(movinEarnReferral, 'InvalidReferralCode');
+      await expect(
+        movinEarnReferral.connect(user1).registerReferralWithCode(code)
+      ).to.be.revertedWithCustomError(movinEarnReferral, 'InvalidReferrer');
+    });
+
+    it('Should transfer and revoke referral codes', async function () {
+      const [, , , user3, user4] = await ethers.getSigners();
+      const code = ethers.encodeBytes32String('movin-runner');
+      await movinEarnReferral.connect(user1).claimReferralCode(code);
+      await movinEarnReferral.connect(user2).registerReferralWithCode(code);
+
+      // The code moves to the new owner, past referrals stay with the previous one
+      await expect(movinEarnReferral.connect(user1).transferReferralCode(user3.address))
+        .to.emit(movinEarnReferral, 'ReferralCodeTransferred')
+        .withArgs(code, user1.address, user3.address);
+      expect(await movinEarn.referralCodeOwners(code)).to.equal(user3.address);
+      expect(await movinEarn.referralCodes(user1.address)).to.equal(ethers.ZeroHash);
+      await movinEarnReferral.connect(user4).registerReferralWithCode(code);
+      expect(await movinEarnReferral.getUserReferrals(user1.address)).to.deep.equal([
+        user2.address,
+      ]);
+      expect(await movinEarnReferral.getUserReferrals(user3.address)).to.deep.equal([
+        user4.address,
+      ]);
+
+      await expect(
+        movinEarnReferral.connect(user1).transferReferralCode(user3.address)
+      ).to.be.revertedWithCustomError(movinEarnReferral, 'InvalidReferralCode');
+
+      // A revoked code cannot be used or claimed again
+      await expect(movinEarnReferral.connect(user3).revokeReferralCode())
+        .to.emit(movinEarnReferral, 'ReferralCodeRevoked')
+        .withArgs(code, user3.address);
+      expect(await movinEarn.referralCodeOwners(code)).to.equal(ethers.ZeroAddress);
+      expect(await movinEarn.revokedReferralCodes(code)).to.equal(true);
+      await expect(movinEarnReferral.connect(user1).claimReferralCode(code))
+        .to.be.revertedWithCustomError(movinEarnReferral, 'ReferralCodeUnavailable')
+        .withArgs(code);
+
+      // A parameter admin can retire a code on its owner's behalf
+      const handle = ethers.encodeBytes32String('official-movin');
+      await movinEarnReferral.connect(user1).claimReferralCode(handle);
+      await expect(
+        movinEarnReferral.connect(user2).forceRevokeReferralCode(handle)
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
+      await expect(movinEarnReferral.connect(owner).forceRevokeReferralCode(handle))
+        .to.emit(movinEarnReferral, 'ReferralCodeRevoked')
+        .withArgs(handle, user1.address);
+      expect(await movinEarn.referralCodes(user1.address)).to.equal(ethers.ZeroHash);
     });
   });
 
@@ -1186,7 +2779,7 @@ describe('MOVINEarnV2', function () {
 
       // Set premium status with monthly payment
       const monthlyAmount = ethers.parseEther('100'); // 100 MVN tokens
-      await movinEarn.connect(user1).setPremiumStatus(true, monthlyAmount);
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
 
       // Get updated premium status
       const [status, paid, expiration] = await movinEarn.getPremiumStatus(user1.address);
@@ -1201,10 +2794,73 @@ describe('MOVINEarnV2', function () {
       expect(expiration).to.be.closeTo(BigInt(expectedExpiration), BigInt(5)); // Allow small timestamp difference
     });
 
+    it('Should burn premium payments by default', async function () {
+      const supplyBefore = await movinToken.totalSupply();
+      const contractBalanceBefore = await movinToken.balanceOf(await movinEarn.getAddress());
+
+      await expect(movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID))
+        .to.emit(movinEarn, 'PremiumPaymentSplit')
+        .withArgs(user1.address, MONTHLY_PLAN_ID, ethers.parseEther('100'), 0, 0);
+
+      expect(supplyBefore - (await movinToken.totalSupply())).to.equal(ethers.parseEther('100'));
+      expect(await movinToken.balanceOf(await movinEarn.getAddress())).to.equal(
+        contractBalanceBefore
+      );
+      expect(await movinEarn.premiumRevenueBurned()).to.equal(ethers.parseEther('100'));
+    });
+
+    it('Should split premium payments between burning, the treasury and the reward pool', async function () {
+      const treasury = ethers.Wallet.createRandom().address;
+
+      await expect(
+        movinEarnParameters.queuePremiumPaymentSplit(5_000, 3_000, 1_000)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'InvalidBasisPoints');
+      await expect(movinEarnParameters.queuePremiumTreasury(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidPremiumTreasury')
+        .withArgs(ethers.ZeroAddress);
+
+      // A treasury share cannot be routed before the treasury is set
+      await movinEarnParameters.queuePremiumPaymentSplit(5_000, 3_000, 2_000);
+      await time.increase(2 * ONE_DAY);
+      await expect(movinEarnParameters.executeParameterChange(0)).to.be.revertedWithCustomError(
+        movinEarnParameters,
+        'InvalidPremiumTreasury'
+      );
+
+      await movinEarnParameters.queuePremiumTreasury(treasury);
+      await time.increase(2 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(1);
+      await movinEarnParameters.executeParameterChange(0);
+      expect(await movinEarn.premiumTreasury()).to.equal(treasury);
+
+      const supplyBefore = await movinToken.totalSupply();
+      const contractBalanceBefore = await movinToken.balanceOf(await movinEarn.getAddress());
+      await expect(movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID))
+        .to.emit(movinEarn, 'PremiumPaymentSplit')
+        .withArgs(
+          user1.address,
+          YEARLY_PLAN_ID,
+          ethers.parseEther('500'),
+          ethers.parseEther('300'),
+          ethers.parseEther('200')
+        );
+      await movinEarnPremium.connect(user2).subscribe(MONTHLY_PLAN_ID);
+
+      expect(supplyBefore - (await movinToken.totalSupply())).to.equal(ethers.parseEther('550'));
+      expect(await movinToken.balanceOf(treasury)).to.equal(ethers.parseEther('330'));
+      expect(
+        (await movinToken.balanceOf(await movinEarn.getAddress())) - contractBalanceBefore
+      ).to.equal(ethers.parseEther('220'));
+
+      expect(await movinEarn.premiumRevenueBurned()).to.equal(ethers.parseEther('550'));
+      expect(await movinEarn.premiumRevenueToTreasury()).to.equal(ethers.parseEther('330'));
+      expect(await movinEarn.premiumRevenueToRewardPool()).to.equal(ethers.parseEther('220'));
+    });
+
     it('Should set and get premium status with yearly payment', async function () {
       // Set premium status with yearly payment
       const yearlyAmount = ethers.parseEther('1000'); // 1000 MVN tokens
-      await movinEarn.connect(user1).setPremiumStatus(true, yearlyAmount);
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
 
       // Get updated premium status
       const [status, paid, expiration] = await movinEarn.getPremiumStatus(user1.address);
@@ -1219,37 +2875,227 @@ describe('MOVINEarnV2', function () {
       expect(expiration).to.be.closeTo(BigInt(expectedExpiration), BigInt(5)); // Allow small timestamp difference
     });
 
-    it('Should fail when setting premium status with invalid amount', async function () {
-      // Try to set premium status with invalid amount
-      const invalidAmount = ethers.parseEther('500'); // Neither monthly nor yearly amount
+    it('Should fail when subscribing to an unknown or inactive plan', async function () {
+      await expect(movinEarnPremium.connect(user1).subscribe(3))
+        .to.be.revertedWithCustomError(movinEarnPremium, 'InvalidPremiumPlan')
+        .withArgs(3);
+
+      await movinEarnParameters.queuePremiumPlanStatus(MONTHLY_PLAN_ID, false);
+      await time.increase(2 * ONE_DAY);
+      await movinEarnParameters.executeParameterChange(0);
+      await expect(movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID))
+        .to.be.revertedWithCustomError(movinEarnPremium, 'InvalidPremiumPlan')
+        .withArgs(MONTHLY_PLAN_ID);
+    });
+
+    it('Should manage premium plans and list the active ones', async function () {
+      const METS_REWARDS = await movinEarn.PREMIUM_FEATURE_METS_REWARDS();
+      const plans = await movinEarnPremium.getActivePremiumPlans();
+      expect(plans.map(plan => plan.id)).to.deep.equal([1n, 2n]);
+      expect(plans[0].price).to.equal(ethers.parseEther('100'));
+      expect(plans[0].duration).to.equal(THIRTY_DAYS);
+      expect(plans[1].price).to.equal(ethers.parseEther('1000'));
+      expect(plans[1].duration).to.equal(ONE_YEAR);
+
       await expect(
-        movinEarn.connect(user1).setPremiumStatus(true, invalidAmount)
-      ).to.be.revertedWithCustomError(movinEarn, 'InvalidPremiumAmount');
+        movinEarnParameters.connect(user1).queuePremiumPlan(ethers.parseEther('10'), 7 * ONE_DAY, 0)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'AccessControlUnauthorizedAccount');
+      await expect(
+        movinEarnParameters.queuePremiumPlan(0, 7 * ONE_DAY, 0)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'ZeroAmountNotAllowed');
+      await expect(movinEarnParameters.queuePremiumPlanStatus(3, false))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidPremiumPlan')
+        .withArgs(3);
+
+      // A weekly plan with METs rewards only, both changes wait for the timelock
+      await movinEarnParameters.queuePremiumPlan(
+        ethers.parseEther('30'),
+        7 * ONE_DAY,
+        METS_REWARDS
+      );
+      await movinEarnParameters.queuePremiumPlanStatus(YEARLY_PLAN_ID, false);
+      expect(await movinEarn.premiumPlanCount()).to.equal(2);
+      await expect(movinEarnParameters.executeParameterChange(0)).to.be.revertedWithCustomError(
+        movinEarnParameters,
+        'ParameterChangeNotReady'
+      );
+
+      await time.increase(2 * ONE_DAY);
+      await expect(movinEarnParameters.executeParameterChange(0))
+        .to.emit(movinEarn, 'PremiumPlanAdded')
+        .withArgs(3, ethers.parseEther('30'), 7 * ONE_DAY, METS_REWARDS);
+      await expect(movinEarnParameters.executeParameterChange(1))
+        .to.emit(movinEarn, 'PremiumPlanStatusChanged')
+        .withArgs(YEARLY_PLAN_ID, false);
+      expect((await movinEarnPremium.getActivePremiumPlans()).map(plan => plan.id)).to.deep.equal([
+        1n,
+        3n,
+      ]);
+
+      await expect(movinEarnPremium.connect(user1).subscribe(3))
+        .to.emit(movinEarn, 'PremiumRenewed')
+        .withArgs(
+          user1.address,
+          3,
+          ethers.parseEther('30'),
+          (await time.latest()) + 1 + 7 * ONE_DAY
+        );
+      const premiumData = await movinEarn.getPremiumStatus(user1.address);
+      expect(premiumData.status).to.equal(true);
+      expect(premiumData.planId).to.equal(3);
+
+      // The plan earns METs rewards but does not include 24-month staking
+      await movinEarn.connect(owner).setTransactionSync(user1.address, true);
+      const [, metsReward] = await movinEarnActivity.calculateActivityRewards(user1.address, 0, 1);
+      expect(metsReward).to.be.gt(0);
+      await expect(
+        movinEarnStaking.connect(user1).stakeTokens(ethers.parseEther('100'), 24)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'UnauthorizedAccess');
     });
 
-    it('Should allow resetting premium status to false', async function () {
-      // First set premium status
+    it('Should keep the paid time when cancelling premium', async function () {
       const monthlyAmount = ethers.parseEther('100');
-      await movinEarn.connect(user1).setPremiumStatus(true, monthlyAmount);
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      const [, , paidExpiration] = await movinEarn.getPremiumStatus(user1.address);
 
-      // Verify it was set
-      const [initialStatus] = await movinEarn.getPremiumStatus(user1.address);
-      expect(initialStatus).to.equal(true);
+      // Cancelling is not refunded, premium stays active until the paid expiration
+      await expect(movinEarnPremium.connect(user1).cancelSubscription())
+        .to.emit(movinEarn, 'PremiumCancelled')
+        .withArgs(user1.address, paidExpiration);
+      const [status, paid, expiration] = await movinEarn.getPremiumStatus(user1.address);
+      expect(status).to.equal(true);
+      expect(paid).to.equal(monthlyAmount);
+      expect(expiration).to.equal(paidExpiration);
+
+      // Once expired, cancelling resets the premium data
+      await time.increaseTo(paidExpiration + 1n);
+      await expect(movinEarnPremium.connect(user1).cancelSubscription())
+        .to.emit(movinEarn, 'PremiumStatusChanged')
+        .withArgs(user1.address, false);
+      const [statusAfterReset, paidAfterReset, expirationAfterReset] =
+        await movinEarn.getPremiumStatus(user1.address);
+      expect(statusAfterReset).to.equal(false);
+      expect(paidAfterReset).to.equal(0);
+      expect(expirationAfterReset).to.equal(0);
+    });
 
-      // Reset premium status to false
-      await movinEarn.connect(user1).setPremiumStatus(false, 0);
+    it('Should stack renewals onto the current expiration', async function () {
+      const monthlyAmount = ethers.parseEther('100');
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      const [, , firstExpiration] = await movinEarn.getPremiumStatus(user1.address);
+
+      // Renewing 10 days early keeps the 20 paid days left
+      await time.increase(10 * ONE_DAY);
+      await expect(movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID))
+        .to.emit(movinEarn, 'PremiumRenewed')
+        .withArgs(
+          user1.address,
+          MONTHLY_PLAN_ID,
+          monthlyAmount,
+          firstExpiration + BigInt(THIRTY_DAYS)
+        );
+      const [status, , expiration] = await movinEarn.getPremiumStatus(user1.address);
+      expect(status).to.equal(true);
+      expect(expiration).to.equal(firstExpiration + BigInt(THIRTY_DAYS));
+
+      // A renewal after the expiration starts from now
+      await time.increaseTo(expiration + BigInt(ONE_DAY));
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      const [, , renewedExpiration] = await movinEarn.getPremiumStatus(user1.address);
+      expect(renewedExpiration).to.equal(BigInt((await time.latest()) + THIRTY_DAYS));
+    });
+
+    it('Should pro-rate the remaining time when switching plans', async function () {
+      const monthlyAmount = ethers.parseEther('100');
+      const yearlyAmount = ethers.parseEther('1000');
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      const [, , monthlyExpiration] = await movinEarn.getPremiumStatus(user1.address);
+
+      // The 20 monthly days left (worth 66.67 MVN) buy 24.33 days at the yearly price
+      await time.increase(10 * ONE_DAY - 1);
+      await movinEarnPremium.connect(user1).subscribe(YEARLY_PLAN_ID);
+      const switchedAt = BigInt(await time.latest());
+      const remaining = monthlyExpiration - switchedAt;
+      const converted =
+        (remaining * monthlyAmount * BigInt(ONE_YEAR)) / (BigInt(THIRTY_DAYS) * yearlyAmount);
 
-      // Verify it was reset
       const [status, paid, expiration] = await movinEarn.getPremiumStatus(user1.address);
-      expect(status).to.equal(false);
-      expect(paid).to.equal(0);
-      expect(expiration).to.equal(0);
+      expect(status).to.equal(true);
+      expect(paid).to.equal(yearlyAmount);
+      expect(expiration).to.equal(switchedAt + converted + BigInt(ONE_YEAR));
+      expect(converted).to.be.gt(remaining);
+
+      // Switching back converts the yearly time at the monthly price
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      const switchedBackAt = BigInt(await time.latest());
+      const yearlyRemaining = expiration - switchedBackAt;
+      const [, , monthlyAgainExpiration] = await movinEarn.getPremiumStatus(user1.address);
+      expect(monthlyAgainExpiration).to.equal(
+        switchedBackAt +
+          (yearlyRemaining * yearlyAmount * BigInt(THIRTY_DAYS)) /
+            (BigInt(ONE_YEAR) * monthlyAmount) +
+          BigInt(THIRTY_DAYS)
+      );
+    });
+
+    it('Should let a sponsor buy and renew premium for beneficiaries', async function () {
+      const [, , , , , employee] = await ethers.getSigners();
+      const monthlyAmount = ethers.parseEther('100');
+      const sponsorBalanceBefore = await movinToken.balanceOf(user1.address);
+
+      await expect(movinEarnPremium.connect(user1).subscribeFor(user2.address, MONTHLY_PLAN_ID))
+        .to.emit(movinEarn, 'PremiumSponsored')
+        .withArgs(user1.address, user2.address, MONTHLY_PLAN_ID, anyValue)
+        .and.to.emit(movinEarn, 'PremiumPaymentSplit')
+        .withArgs(user2.address, MONTHLY_PLAN_ID, monthlyAmount, 0, 0);
+      const [status, paid, expiration] = await movinEarn.getPremiumStatus(user2.address);
+      expect(status).to.equal(true);
+      expect(paid).to.equal(monthlyAmount);
+      expect(expiration).to.equal(BigInt((await time.latest()) + THIRTY_DAYS));
+
+      // A bulk purchase is paid in one transfer, renews the covered beneficiary and lists each
+      // one only once
+      const bulkTx = await movinEarnPremium
+        .connect(user1)
+        .subscribeForMany([user2.address, employee.address], MONTHLY_PLAN_ID);
+      const payments = await movinToken.queryFilter(
+        movinToken.filters.Transfer(user1.address),
+        bulkTx.blockNumber!,
+        bulkTx.blockNumber!
+      );
+      expect(payments.map(payment => payment.args.value)).to.deep.equal([monthlyAmount * 2n]);
+      expect(sponsorBalanceBefore - (await movinToken.balanceOf(user1.address))).to.equal(
+        monthlyAmount * 3n
+      );
+      const [, , renewedExpiration] = await movinEarn.getPremiumStatus(user2.address);
+      expect(renewedExpiration).to.equal(expiration + BigInt(THIRTY_DAYS));
+
+      const [beneficiaries, premiumData] = await movinEarnPremium.getSponsoredUsers(user1.address);
+      expect(beneficiaries).to.deep.equal([user2.address, employee.address]);
+      expect(premiumData[0].expiration).to.equal(expiration + BigInt(THIRTY_DAYS));
+      expect(premiumData[1].status).to.equal(true);
+      expect(premiumData[1].expiration).to.equal(BigInt((await time.latest()) + THIRTY_DAYS));
+      expect((await movinEarnPremium.getSponsoredUsers(user2.address))[0]).to.be.empty;
+
+      expect(await movinEarnPremium.getSponsoredUserCount(user1.address)).to.equal(2);
+      const [pageUsers, pageData] = await movinEarnPremium.getSponsoredUsersPage(
+        user1.address,
+        1,
+        5
+      );
+      expect(pageUsers).to.deep.equal([employee.address]);
+      expect(pageData[0]).to.deep.equal(premiumData[1]);
+      expect((await movinEarnPremium.getSponsoredUsersPage(user1.address, 2, 5))[0]).to.be.empty;
+
+      await expect(
+        movinEarnPremium.connect(user1).subscribeFor(ethers.ZeroAddress, MONTHLY_PLAN_ID)
+      ).to.be.revertedWithCustomError(movinEarn, 'InvalidUser');
     });
 
     it('Should return expired status after the premium period ends', async function () {
       // Set premium status with monthly payment
       const monthlyAmount = ethers.parseEther('100');
-      await movinEarn.connect(user1).setPremiumStatus(true, monthlyAmount);
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
 
       // Verify it was set
       const [initialStatus] = await movinEarn.getPremiumStatus(user1.address);
@@ -1267,15 +3113,67 @@ describe('MOVINEarnV2', function () {
       expect(expiration).to.be.lt(await time.latest()); // Expiration should be in the past
     });
 
+    it('Should keep METs rewards up to the expiration and emit PremiumExpired once', async function () {
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      const [, , expiration] = await movinEarn.getPremiumStatus(user1.address);
+
+      // Still premium in the block of the expiration
+      await time.setNextBlockTimestamp(expiration);
+      await expect(movinEarnActivity.recordActivity(user1.address, 0, 1))
+        .to.emit(movinEarn, 'RewardsClaimed')
+        .withArgs(user1.address, 0, anyValue, anyValue)
+        .and.not.to.emit(movinEarn, 'PremiumExpired');
+      expect((await movinEarn.getPremiumStatus(user1.address)).status).to.equal(true);
+
+      // After the expiration METs are no longer rewarded
+      await time.setNextBlockTimestamp(expiration + 61n);
+      await expect(movinEarnActivity.recordActivity(user1.address, 0, 1))
+        .to.emit(movinEarn, 'PremiumExpired')
+        .withArgs(user1.address, expiration)
+        .and.to.emit(movinEarn, 'RewardsClaimed')
+        .withArgs(user1.address, 0, 0, 0);
+      expect((await movinEarn.getPremiumStatus(user1.address)).status).to.equal(false);
+
+      await time.increase(61);
+      await expect(movinEarnActivity.recordActivity(user1.address, 0, 1)).not.to.emit(
+        movinEarn,
+        'PremiumExpired'
+      );
+    });
+
+    it('Should not allow 24-month stakes or restakes after the premium expiration', async function () {
+      const stakeAmount = ethers.parseEther('100');
+      await movinEarnPremium.connect(user1).subscribe(MONTHLY_PLAN_ID);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 1);
+      const [, , expiration] = await movinEarn.getPremiumStatus(user1.address);
+
+      await time.setNextBlockTimestamp(expiration);
+      await movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 24);
+
+      await time.setNextBlockTimestamp(expiration + 1n);
+      await expect(
+        movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 24)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'UnauthorizedAccess');
+      await expect(
+        movinEarnStaking.connect(user1).restakeById(0, 24)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'UnauthorizedAccess');
+      expect((await movinEarn.userPremiumData(user1.address)).status).to.equal(true);
+
+      // The first successful transaction of the lapsed user marks the subscription as expired
+      await expect(movinEarnStaking.connect(user1).stakeTokens(stakeAmount, 12))
+        .to.emit(movinEarn, 'PremiumExpired')
+        .withArgs(user1.address, expiration);
+    });
+
     it('Should restrict METs activity rewards for non-premium users', async function () {
       // Ensure user2 is not premium
-      await movinEarn.connect(user2).setPremiumStatus(false, 0);
+      await movinEarnPremium.connect(user2).cancelSubscription();
 
       // Get initial balance
       const initialBalance = await movinToken.balanceOf(user2.address);
 
       // Record METs activity for non-premium user
-      await movinEarn.recordActivity(user2.address, 0, 1);
+      await movinEarnActivity.recordActivity(user2.address, 0, 1);
 
       // Get balance after activity
       const balanceAfter = await movinToken.balanceOf(user2.address);
@@ -1287,14 +3185,14 @@ describe('MOVINEarnV2', function () {
       await movinToken
         .connect(user2)
         .approve(await movinEarn.getAddress(), ethers.parseEther('100'));
-      await movinEarn.connect(user2).setPremiumStatus(true, ethers.parseEther('100'));
+      await movinEarnPremium.connect(user2).subscribe(MONTHLY_PLAN_ID);
 
       // Save balance after becoming premium
       const balanceAfterPremium = await movinToken.balanceOf(user2.address);
 
       // Record METs activity again (now with premium thresholds)
       await time.increaseTo((await time.latest()) + 61); // Wait 1 minute to avoid rate limiting
-      await movinEarn.recordActivity(user2.address, 0, 1);
+      await movinEarnActivity.recordActivity(user2.address, 0, 1);
 
       // Get balance after activity as premium user
       const balanceAfterActivity = await movinToken.balanceOf(user2.address);
@@ -1314,14 +3212,343 @@ describe('MOVINEarnV2', function () {
 
       // Try to stake tokens while paused
       await expect(
-        movinEarn.connect(user1).stakeTokens(ethers.parseEther('100'), 1)
-      ).to.be.revertedWithCustomError(movinEarn, 'ContractPaused');
+        movinEarnStaking.connect(user1).stakeTokens(ethers.parseEther('100'), 1)
+      ).to.be.revertedWithCustomError(movinEarnStaking, 'ContractPaused');
 
       // Unpause contract
       await movinEarn.connect(owner).emergencyUnpause();
 
       // Staking should work now
-      await movinEarn.connect(user1).stakeTokens(ethers.parseEther('100'), 1);
+      await movinEarnStaking.connect(user1).stakeTokens(ethers.parseEther('100'), 1);
+    });
+
+    it('Should grant every operational role to the deployer', async function () {
+      const roles = [
+        await movinEarn.DEFAULT_ADMIN_ROLE(),
+        await movinEarn.MEAL_ORACLE_ROLE(),
+        await movinEarn.ACTIVITY_ORACLE_ROLE(),
+        await movinEarn.PAUSER_ROLE(),
+        await movinEarn.PARAMETER_ADMIN_ROLE(),
+        await movinEarn.UPGRADER_ROLE(),
+      ];
+
+      for (const role of roles) {
+        expect(await movinEarn.hasRole(role, owner.address)).to.be.true;
+      }
+    });
+
+    it('Should restrict a meal oracle hot wallet to meal rewards only', async function () {
+      const [, , , , mealOracle] = await ethers.getSigners();
+      const MEAL_ORACLE_ROLE = await movinEarn.MEAL_ORACLE_ROLE();
+
+      await expect(movinEarn.connect(owner).grantRole(MEAL_ORACLE_ROLE, mealOracle.address))
+        .to.emit(movinEarn, 'RoleGranted')
+        .withArgs(MEAL_ORACLE_ROLE, mealOracle.address, owner.address);
+
+      // The meal oracle can post meal scores
+      await movinEarn.connect(mealOracle).claimMealRewards(user1.address, 50);
+
+      // But it cannot mint, pause, record activity or upgrade
+      await expect(
+        movinEarn.connect(mealOracle).mintToken(mealOracle.address, ONE_THOUSAND_TOKENS)
+      ).to.be.revertedWithCustomError(movinEarn, 'OwnableUnauthorizedAccount');
+      await expect(movinEarn.connect(mealOracle).emergencyPause()).to.be.revertedWithCustomError(
+        movinEarn,
+        'AccessControlUnauthorizedAccount'
+      );
+      await expect(
+        movinEarnActivity.connect(mealOracle).recordActivity(user1.address, 1000, 0)
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
+
+      const MOVINEarnV2 = await ethers.getContractFactory('MOVINEarnV2');
+      const newImplementation = await MOVINEarnV2.deploy();
+      await expect(
+        movinEarn.connect(mealOracle).upgradeToAndCall(await newImplementation.getAddress(), '0x')
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
+
+      await expect(movinEarn.connect(owner).revokeRole(MEAL_ORACLE_ROLE, mealOracle.address))
+        .to.emit(movinEarn, 'RoleRevoked')
+        .withArgs(MEAL_ORACLE_ROLE, mealOracle.address, owner.address);
+
+      await time.increase(2 * 60 * 60);
+      await expect(
+        movinEarn.connect(mealOracle).claimMealRewards(user1.address, 50)
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
+    });
+
+    it('Should move the default admin role along with ownership', async function () {
+      const DEFAULT_ADMIN_ROLE = await movinEarn.DEFAULT_ADMIN_ROLE();
+
+      await movinEarn.connect(owner).transferOwnership(user1.address);
+      // Ownership (and admin) only moves once the new owner accepts
+      expect(await movinEarn.hasRole(DEFAULT_ADMIN_ROLE, user1.address)).to.be.false;
+
+      await movinEarn.connect(user1).acceptOwnership();
+
+      expect(await movinEarn.owner()).to.equal(user1.address);
+      expect(await movinEarn.hasRole(DEFAULT_ADMIN_ROLE, user1.address)).to.be.true;
+      expect(await movinEarn.hasRole(DEFAULT_ADMIN_ROLE, owner.address)).to.be.false;
+    });
+
+    it('Should keep storage and set up roles when upgrading from MOVINEarn', async function () {
+      const MOVINEarn = await ethers.getContractFactory('MOVINEarn');
+      const movinEarnV1 = await upgrades.deployProxy(MOVINEarn, [await movinToken.getAddress()], {
+        kind: 'uups',
+        initializer: 'initialize(address)',
+        // MOVINEarn's V2 reinitializer does not call the parent initializers
+        unsafeAllow: ['missing-initializer-call'],
+      });
+      await movinEarnV1.waitForDeployment();
+      await movinEarnV1.getFunction('setLockPeriodMultiplier')(6, 7);
+      await movinToken.connect(user1).approve(await movinEarnV1.getAddress(), ONE_THOUSAND_TOKENS);
+      await movinEarnV1.connect(user1).getFunction('stakeTokens')(ONE_THOUSAND_TOKENS / 2n, 1);
+      await movinEarnV1.connect(user1).getFunction('stakeTokens')(ONE_THOUSAND_TOKENS / 2n, 3);
+
+      const MOVINEarnV2 = await ethers.getContractFactory('MOVINEarnV2');
+      const upgraded = (await upgrades.upgradeProxy(await movinEarnV1.getAddress(), MOVINEarnV2, {
+        kind: 'uups',
+        call: { fn: 'initializeV3' },
+      })) as unknown as MOVINEarnV2;
+
+      expect(await upgraded.movinToken()).to.equal(await movinToken.getAddress());
+      expect(await upgraded.lockPeriodMultipliers(6)).to.equal(7);
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await upgraded.hasRole(await upgraded.UPGRADER_ROLE(), owner.address)).to.be.true;
+      expect(await upgraded.hasRole(await upgraded.MEAL_ORACLE_ROLE(), user1.address)).to.be.false;
+
+      // Stakes from before the upgrade are listed, and tracked once the staker is indexed
+      await deployEarnModules(upgraded);
+      const upgradedStaking = await ethers.getContractAt(
+        'MOVINEarnStakingModule',
+        await upgraded.getAddress()
+      );
+      expect(await upgradedStaking.getUserStakeCountOf(user1.address)).to.equal(2);
+      expect((await upgradedStaking.getUserStakesPage(user1.address, 1, 1))[0].id).to.equal(1);
+      await upgradedStaking.indexStakers([user1.address]);
+      expect(await upgradedStaking.getStakersPage(0, 1)).to.deep.equal([
+        [user1.address],
+        [2n],
+        [ONE_THOUSAND_TOKENS],
+      ]);
+    });
+
+    it('Should not repeat the V3 setup on a freshly initialized proxy', async function () {
+      await expect(movinEarn.connect(user1).initializeV3())
+        .to.be.revertedWithCustomError(movinEarn, 'OwnableUnauthorizedAccount')
+        .withArgs(user1.address);
+      await movinEarn.connect(owner).initializeV3();
+      await expect(movinEarn.initializeV2()).to.be.revertedWithCustomError(
+        movinEarn,
+        'InvalidInitialization'
+      );
+
+      expect(await movinEarnParameters.getReferralTiers()).to.deep.equal([100n]);
+      expect(await movinEarnParameters.getStreakBonuses()).to.have.lengthOf(2);
+      expect(await movinEarn.premiumPlanCount()).to.equal(2);
+    });
+
+    it('Should not let anyone initialize an upgraded proxy before the V3 setup', async function () {
+      const MOVINEarn = await ethers.getContractFactory('MOVINEarn');
+      const movinEarnV1 = await upgrades.deployProxy(MOVINEarn, [await movinToken.getAddress()], {
+        kind: 'uups',
+        initializer: 'initialize(address)',
+        unsafeAllow: ['missing-initializer-call'],
+      });
+      await movinEarnV1.waitForDeployment();
+      await movinEarnV1.getFunction('initialize()')();
+
+      const MOVINEarnV2 = await ethers.getContractFactory('MOVINEarnV2');
+      const upgraded = (await upgrades.upgradeProxy(await movinEarnV1.getAddress(), MOVINEarnV2, {
+        kind: 'uups',
+      })) as unknown as MOVINEarnV2;
+
+      await expect(
+        upgraded.connect(user2).initialize(await user2.getAddress())
+      ).to.be.revertedWithCustomError(upgraded, 'InvalidInitialization');
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect(await upgraded.movinToken()).to.equal(await movinToken.getAddress());
+    });
+  });
+
+  describe('Timelocked parameter changes', function () {
+    const PARAMETER_CHANGE_DELAY = 2 * ONE_DAY;
+
+    it('Should not apply a lock period multiplier change before the delay', async function () {
+      await movinEarnParameters.queueLockPeriodMultiplier(12, 10);
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+
+      // The multiplier is unchanged while the change is pending
+      expect(await movinEarn.lockPeriodMultipliers(12)).to.equal(12);
+
+      await time.increase(PARAMETER_CHANGE_DELAY - 60);
+      await expect(movinEarnParameters.executeParameterChange(change.id))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'ParameterChangeNotReady')
+        .withArgs(change.executeAfter);
+
+      await time.increase(60);
+      await expect(movinEarnParameters.executeParameterChange(change.id))
+        .to.emit(movinEarnParameters, 'ParameterChangeExecuted')
+        .withArgs(change.id, change.parameter, change.data);
+
+      expect(await movinEarn.lockPeriodMultipliers(12)).to.equal(10);
+      expect(await movinEarnParameters.getPendingParameterChanges()).to.have.lengthOf(0);
+    });
+
+    it('Should expose pending changes with their execution date', async function () {
+      const tx = await movinEarnParameters.queueLockPeriodMultiplier(24, 30);
+      const queuedAt = await time.latest();
+
+      await expect(tx)
+        .to.emit(movinEarnParameters, 'ParameterChangeQueued')
+        .withArgs(
+          0,
+          await movinEarnParameters.LOCK_PERIOD_MULTIPLIER(),
+          ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'uint256'], [24, 30]),
+          queuedAt + PARAMETER_CHANGE_DELAY
+        );
+
+      await movinEarnParameters.queueBaseRates(ethers.parseEther('2'), ethers.parseEther('3'));
+
+      const pendingChanges = await movinEarnParameters.getPendingParameterChanges();
+      expect(pendingChanges).to.have.lengthOf(2);
+      expect(pendingChanges[0].parameter).to.equal(
+        await movinEarnParameters.LOCK_PERIOD_MULTIPLIER()
+      );
+      expect(pendingChanges[0].executeAfter).to.equal(queuedAt + PARAMETER_CHANGE_DELAY);
+
+      const [months, multiplier] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ['uint256', 'uint256'],
+        pendingChanges[0].data
+      );
+      expect(months).to.equal(24);
+      expect(multiplier).to.equal(30);
+      expect(pendingChanges[1].parameter).to.equal(await movinEarnParameters.BASE_RATES());
+    });
+
+    it('Should apply queued base rates only after the delay', async function () {
+      await movinEarnParameters.queueBaseRates(ethers.parseEther('2'), ethers.parseEther('3'));
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+
+      await expect(
+        movinEarnParameters.executeParameterChange(change.id)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'ParameterChangeNotReady');
+
+      await time.increase(PARAMETER_CHANGE_DELAY);
+      await expect(movinEarnParameters.executeParameterChange(change.id)).to.emit(
+        movinEarn,
+        'RewardsRateDecreased'
+      );
+
+      expect(await movinEarn.baseStepsRate()).to.equal(ethers.parseEther('2'));
+      expect(await movinEarn.baseMetsRate()).to.equal(ethers.parseEther('3'));
+      expect(await movinEarn.rewardHalvingTimestamp()).to.equal(await time.latest());
+    });
+
+    it('Should allow cancelling a pending change', async function () {
+      await movinEarnParameters.queueLockPeriodMultiplier(1, 5);
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+
+      await expect(movinEarnParameters.cancelParameterChange(change.id))
+        .to.emit(movinEarnParameters, 'ParameterChangeCancelled')
+        .withArgs(change.id, change.parameter);
+      expect(await movinEarnParameters.getPendingParameterChanges()).to.have.lengthOf(0);
+
+      // A cancelled change can never be executed
+      await time.increase(PARAMETER_CHANGE_DELAY);
+      await expect(movinEarnParameters.executeParameterChange(change.id))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'ParameterChangeNotFound')
+        .withArgs(change.id);
+      expect(await movinEarn.lockPeriodMultipliers(1)).to.equal(1);
+    });
+
+    it('Should only allow parameter admins to queue, execute and cancel changes', async function () {
+      await expect(
+        movinEarnParameters.connect(user1).queueLockPeriodMultiplier(12, 100)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'AccessControlUnauthorizedAccount');
+      await expect(
+        movinEarnParameters.connect(user1).queueBaseRates(1, 1)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'AccessControlUnauthorizedAccount');
+
+      await movinEarnParameters.queueLockPeriodMultiplier(12, 100);
+      await time.increase(PARAMETER_CHANGE_DELAY);
+
+      await expect(
+        movinEarnParameters.connect(user1).executeParameterChange(0)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'AccessControlUnauthorizedAccount');
+      await expect(
+        movinEarnParameters.connect(user1).cancelParameterChange(0)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'AccessControlUnauthorizedAccount');
+    });
+
+    it('Should reject invalid parameter values', async function () {
+      await expect(movinEarnParameters.queueLockPeriodMultiplier(0, 1))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidLockPeriod')
+        .withArgs(0);
+      await expect(
+        movinEarnParameters.queueBaseRates(0, ethers.parseEther('1'))
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'ZeroAmountNotAllowed');
+      await expect(
+        movinEarnParameters.queueReferralTiers([100, 50, 25, 10])
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'InvalidReferralTiers');
+      await expect(movinEarnParameters.queueReferralTiers([150, 50, 25]))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidBasisPoints')
+        .withArgs(225);
+      await expect(movinEarnParameters.queueReferralSourceShares(100, 201))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidBasisPoints')
+        .withArgs(201);
+    });
+
+    it('Should replace the streak threshold and bonus schedule', async function () {
+      await expect(
+        movinEarnParameters.queueStreakBonusSchedule([
+          { minDays: 30, bonusBps: 1_000 },
+          { minDays: 7, bonusBps: 500 },
+        ])
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'InvalidStreakBonusSchedule');
+      await expect(movinEarnParameters.queueStreakBonusSchedule([{ minDays: 3, bonusBps: 10_001 }]))
+        .to.be.revertedWithCustomError(movinEarnParameters, 'InvalidBasisPoints')
+        .withArgs(10_001);
+      await expect(movinEarnParameters.queueStreakStepsThreshold(0)).to.be.revertedWithCustomError(
+        movinEarnParameters,
+        'InvalidActivityInput'
+      );
+
+      await movinEarnParameters.queueStreakStepsThreshold(5_000);
+      await movinEarnParameters.queueStreakBonusSchedule([{ minDays: 3, bonusBps: 200 }]);
+      await time.increase(PARAMETER_CHANGE_DELAY);
+      for (const change of await movinEarnParameters.getPendingParameterChanges()) {
+        await movinEarnParameters.executeParameterChange(change.id);
+      }
+
+      expect(await movinEarn.streakStepsThreshold()).to.equal(5_000);
+      const bonuses = await movinEarnParameters.getStreakBonuses();
+      expect(bonuses).to.have.lengthOf(1);
+      expect(bonuses[0].minDays).to.equal(3);
+      expect(bonuses[0].bonusBps).to.equal(200);
+    });
+
+    it('Should replace the referral bonus milestone', async function () {
+      await expect(
+        movinEarnParameters.queueReferralBonusMilestone(3, 10_000, 0)
+      ).to.be.revertedWithCustomError(movinEarnParameters, 'InvalidReferralBonusMilestone');
+
+      await movinEarnParameters.queueReferralBonusMilestone(7, 0, 14 * ONE_DAY);
+      await time.increase(PARAMETER_CHANGE_DELAY);
+      const [change] = await movinEarnParameters.getPendingParameterChanges();
+      await movinEarnParameters.executeParameterChange(change.id);
+
+      expect(await movinEarn.referralBonusMinActiveDays()).to.equal(7);
+      expect(await movinEarn.referralBonusMinSteps()).to.equal(0);
+      expect(await movinEarn.referralBonusEscrowPeriod()).to.equal(14 * ONE_DAY);
+    });
+
+    it('Should revert on functions that no module handles', async function () {
+      const selector = ethers.id('doesNotExist()').slice(0, 10);
+
+      await expect(owner.sendTransaction({ to: await movinEarn.getAddress(), data: selector }))
+        .to.be.revertedWithCustomError(movinEarn, 'UnknownFunction')
+        .withArgs(selector);
     });
   });
 
@@ -1370,11 +3597,11 @@ describe('MOVINEarnV2', function () {
       ).to.be.revertedWithCustomError(movinEarn, 'InvalidMealScore');
     });
 
-    it('Should only allow owner to claim meal rewards', async function () {
+    it('Should only allow the meal oracle to claim meal rewards', async function () {
       // Try to call from non-owner account
       await expect(
         movinEarn.connect(user1).claimMealRewards(user2.address, 50)
-      ).to.be.revertedWithCustomError(movinEarn, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(movinEarn, 'AccessControlUnauthorizedAccount');
     });
 
     it('Should calculate rewards correctly for various scores', async function () {